@@ -5,13 +5,27 @@ export const compileAsync = sass.compileAsync;
 export const compileString = sass.compileString;
 export const compileStringAsync = sass.compileStringAsync;
 export const NodePackageImporter = sass.NodePackageImporter;
+export const AliasImporter = sass.AliasImporter;
+export const MemoryImporter = sass.MemoryImporter;
+export const HttpImporter = sass.HttpImporter;
 export const AsyncCompiler = sass.AsyncCompiler;
 export const Compiler = sass.Compiler;
 export const initAsyncCompiler = sass.initAsyncCompiler;
 export const initCompiler = sass.initCompiler;
+export const AsyncCompilerPool = sass.AsyncCompilerPool;
+export const initAsyncCompilerPool = sass.initAsyncCompilerPool;
+export const acquireSharedAsyncCompiler = sass.acquireSharedAsyncCompiler;
+export const acquireSharedCompiler = sass.acquireSharedCompiler;
+export const Watcher = sass.Watcher;
+export const watch = sass.watch;
+export const ImporterCache = sass.ImporterCache;
+export const DirectoryCacheStore = sass.DirectoryCacheStore;
+export const EmbeddedProtocolClient = sass.EmbeddedProtocolClient;
+export const embeddedProtocol = sass.embeddedProtocol;
 export const deprecations = sass.deprecations;
 export const Version = sass.Version;
 export const Logger = sass.Logger;
+export const defineFunction = sass.defineFunction;
 export const CalculationInterpolation = sass.CalculationInterpolation;
 export const CalculationOperation = sass.CalculationOperation;
 export const CalculationOperator = sass.CalculationOperator;
@@ -31,7 +45,10 @@ export const ListSeparator = sass.ListSeparator;
 export const sassFalse = sass.sassFalse;
 export const sassNull = sass.sassNull;
 export const sassTrue = sass.sassTrue;
+export const toSassValue = sass.toSassValue;
+export const fromSassValue = sass.fromSassValue;
 export const Exception = sass.Exception;
+export const TimeoutError = sass.TimeoutError;
 export const PromiseOr = sass.PromiseOr;
 export const info = sass.info;
 export const render = sass.render;
@@ -72,6 +89,18 @@ export default {
     defaultExportDeprecation();
     return sass.NodePackageImporter;
   },
+  get AliasImporter() {
+    defaultExportDeprecation();
+    return sass.AliasImporter;
+  },
+  get MemoryImporter() {
+    defaultExportDeprecation();
+    return sass.MemoryImporter;
+  },
+  get HttpImporter() {
+    defaultExportDeprecation();
+    return sass.HttpImporter;
+  },
   get initAsyncCompiler() {
     defaultExportDeprecation();
     return sass.initAsyncCompiler;
@@ -80,6 +109,46 @@ export default {
     defaultExportDeprecation();
     return sass.initCompiler;
   },
+  get AsyncCompilerPool() {
+    defaultExportDeprecation();
+    return sass.AsyncCompilerPool;
+  },
+  get initAsyncCompilerPool() {
+    defaultExportDeprecation();
+    return sass.initAsyncCompilerPool;
+  },
+  get acquireSharedAsyncCompiler() {
+    defaultExportDeprecation();
+    return sass.acquireSharedAsyncCompiler;
+  },
+  get acquireSharedCompiler() {
+    defaultExportDeprecation();
+    return sass.acquireSharedCompiler;
+  },
+  get Watcher() {
+    defaultExportDeprecation();
+    return sass.Watcher;
+  },
+  get watch() {
+    defaultExportDeprecation();
+    return sass.watch;
+  },
+  get ImporterCache() {
+    defaultExportDeprecation();
+    return sass.ImporterCache;
+  },
+  get DirectoryCacheStore() {
+    defaultExportDeprecation();
+    return sass.DirectoryCacheStore;
+  },
+  get EmbeddedProtocolClient() {
+    defaultExportDeprecation();
+    return sass.EmbeddedProtocolClient;
+  },
+  get embeddedProtocol() {
+    defaultExportDeprecation();
+    return sass.embeddedProtocol;
+  },
   get AsyncCompiler() {
     defaultExportDeprecation();
     return sass.AsyncCompiler;
@@ -100,6 +169,10 @@ export default {
     defaultExportDeprecation();
     return sass.Logger;
   },
+  get defineFunction() {
+    defaultExportDeprecation();
+    return sass.defineFunction;
+  },
   get CalculationOperation() {
     defaultExportDeprecation();
     return sass.CalculationOperation;
@@ -176,10 +249,22 @@ export default {
     defaultExportDeprecation();
     return sass.sassTrue;
   },
+  get toSassValue() {
+    defaultExportDeprecation();
+    return sass.toSassValue;
+  },
+  get fromSassValue() {
+    defaultExportDeprecation();
+    return sass.fromSassValue;
+  },
   get Exception() {
     defaultExportDeprecation();
     return sass.Exception;
   },
+  get TimeoutError() {
+    defaultExportDeprecation();
+    return sass.TimeoutError;
+  },
   get PromiseOr() {
     defaultExportDeprecation();
     return sass.PromiseOr;
@@ -23,18 +23,99 @@ export {
   CalculationInterpolation,
   SassCalculation,
 } from './src/value/calculations';
+export {
+  JsValue,
+  ValueConversionOptions,
+  fromSassValue,
+  toSassValue,
+} from './src/value/convert';
+export {ColorFormat, ToCssOptions} from './src/value/serialize';
 
 export * as types from './src/legacy/value';
-export {Exception} from './src/exception';
+export {Exception, TimeoutError} from './src/exception';
 export {
   compile,
   compileString,
   compileAsync,
   compileStringAsync,
+  AliasImporter,
+  AliasImporterOptions,
   NodePackageImporter,
 } from './src/compile';
-export {initAsyncCompiler, AsyncCompiler} from './src/compiler/async';
+export {
+  initAsyncCompiler,
+  AsyncCompiler,
+  CompileManyInput,
+  CompileManyOptions,
+  CompileManyOutcome,
+  CompileManyProgress,
+} from './src/compiler/async';
 export {initCompiler, Compiler} from './src/compiler/sync';
+export {
+  acquireSharedAsyncCompiler,
+  acquireSharedCompiler,
+  SharedAsyncCompiler,
+  SharedCompiler,
+  SharedCompilerOptions,
+} from './src/compiler/shared';
+export {
+  CompilerInitOptions,
+  HostCompileResult,
+  HostOptions,
+} from './src/compiler/utils';
+export {CallStats, CompileStats, ImporterStats} from './src/compile-stats';
+export {DependencyGraph, DependencyGraphEdge} from './src/dependency-graph';
+export {
+  DeprecationReport,
+  DeprecationReportEntry,
+} from './src/deprecation-report';
+export {Diagnostic} from './src/diagnostic';
+export {DispatcherHandlers} from './src/dispatcher';
+export {
+  EmbeddedProtocolClient,
+  EmbeddedProtocolHandlers,
+} from './src/embedded-protocol-client';
+export {OutboundRequestMessage} from './src/messages';
+export * as embeddedProtocol from './src/vendor/embedded_sass_pb';
+export {
+  DirectoryCacheStore,
+  ImporterCache,
+  ImporterCacheOptions,
+  ImporterCacheStore,
+} from './src/importer-cache';
+export {
+  CanonicalizeMiddlewareRequest,
+  ImporterMiddleware,
+  LoadMiddlewareRequest,
+} from './src/importer-middleware';
+export {
+  HttpFetch,
+  HttpImporter,
+  HttpImporterOptions,
+  HttpResponse,
+} from './src/http-importer';
+export {HostImporterResult} from './src/input-source-maps';
+export {HostModule} from './src/host-modules';
+export {SourceMapOutputOptions} from './src/source-map-output';
+export {
+  ArgumentsFor,
+  FunctionDefinition,
+  ParameterSpec,
+  ParameterType,
+  RestArguments,
+  defineFunction,
+} from './src/define-function';
+export {
+  MemoryDirectory,
+  MemoryImporter,
+  MemoryImporterOptions,
+} from './src/memory-importer';
+export {
+  initAsyncCompilerPool,
+  AsyncCompilerPool,
+  AsyncCompilerPoolOptions,
+} from './src/compiler/pool';
+export {watch, Watcher, WatchEvent, WatchOptions} from './src/watch';
 export {
   deprecations,
   Deprecation,
@@ -46,7 +127,7 @@ export {render, renderSync} from './src/legacy';
 
 export const info = `sass-embedded\t${pkg.version}`;
 
-export {Logger} from './src/logger';
+export {Logger, ReportStream, ReportingLogger} from './src/logger';
 
 // Legacy JS API
 
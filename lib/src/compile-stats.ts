@@ -0,0 +1,141 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {DispatcherHandlers} from './dispatcher';
+import {ImporterRegistry} from './importer-registry';
+import {PromiseOr, thenOr} from './utils';
+import {FileImporter, Importer} from './vendor/sass';
+
+/** The number of calls to a host callback and the time they took. */
+export interface CallStats {
+  /** The number of calls. */
+  count: number;
+
+  /** The cumulative time spent in the calls, in milliseconds. */
+  time: number;
+}
+
+/** Statistics about the calls to a single importer. */
+export interface ImporterStats {
+  /** The importer the calls were made to. */
+  readonly importer: Importer | FileImporter;
+
+  /**
+   * Calls to `canonicalize()`, or to `findFileUrl()` for a `FileImporter`.
+   */
+  readonly canonicalize: CallStats;
+
+  /** Calls to `load()`. This is always empty for a `FileImporter`. */
+  readonly load: CallStats;
+}
+
+/** Statistics about where the time in a compilation went. */
+export interface CompileStats {
+  /**
+   * The time between sending the compilation to the compiler and receiving its
+   * result, in milliseconds.
+   */
+  readonly wallTime: number;
+
+  /** Statistics for each importer that was called at least once. */
+  readonly importers: ImporterStats[];
+
+  /**
+   * Statistics for each host function that was called at least once, indexed
+   * by the name it was called with. Calls to anonymous functions are grouped
+   * under `"anonymous function"`.
+   */
+  readonly functions: Record<string, CallStats>;
+
+  /** The size of the emitted CSS, in UTF-8 bytes. */
+  readonly cssBytes: number;
+}
+
+/** Measures the host callbacks made during a single compilation. */
+export class StatsCollector {
+  /** The time the compilation started. */
+  private readonly start = performance.now();
+
+  /** Statistics for the importers that have been called, by importer ID. */
+  private readonly importers = new Map<number, ImporterStats>();
+
+  /** Statistics for the functions that have been called, by name. */
+  private readonly functions = new Map<string, CallStats>();
+
+  constructor(private readonly registry: ImporterRegistry<'sync' | 'async'>) {}
+
+  /** Returns a copy of `handlers` that records how long each call takes. */
+  instrument<sync extends 'sync' | 'async'>(
+    handlers: DispatcherHandlers<sync>,
+  ): DispatcherHandlers<sync> {
+    return {
+      handleImportRequest: request =>
+        this.measure(this.importerStats(request.importerId).load, () =>
+          handlers.handleImportRequest(request),
+        ),
+      handleFileImportRequest: request =>
+        this.measure(this.importerStats(request.importerId).canonicalize, () =>
+          handlers.handleFileImportRequest(request),
+        ),
+      handleCanonicalizeRequest: request =>
+        this.measure(this.importerStats(request.importerId).canonicalize, () =>
+          handlers.handleCanonicalizeRequest(request),
+        ),
+      handleFunctionCallRequest: request =>
+        this.measure(
+          this.functionStats(
+            request.identifier.case === 'name'
+              ? request.identifier.value
+              : 'anonymous function',
+          ),
+          () => handlers.handleFunctionCallRequest(request),
+        ),
+    };
+  }
+
+  /** Returns the statistics for a compilation that emitted `css`. */
+  build(css: string): CompileStats {
+    return {
+      wallTime: performance.now() - this.start,
+      importers: [...this.importers.values()],
+      functions: Object.fromEntries(this.functions),
+      cssBytes: Buffer.byteLength(css),
+    };
+  }
+
+  /** Runs `callback` and adds the time it takes to `stats`. */
+  private measure<T, sync extends 'sync' | 'async'>(
+    stats: CallStats,
+    callback: () => PromiseOr<T, sync>,
+  ): PromiseOr<T, sync> {
+    const start = performance.now();
+    stats.count++;
+    return thenOr(callback(), result => {
+      stats.time += performance.now() - start;
+      return result;
+    });
+  }
+
+  private importerStats(id: number): ImporterStats {
+    let stats = this.importers.get(id);
+    if (!stats) {
+      stats = {
+        importer: this.registry.getImporter(id)!,
+        canonicalize: {count: 0, time: 0},
+        load: {count: 0, time: 0},
+      };
+      this.importers.set(id, stats);
+    }
+    return stats;
+  }
+
+  private functionStats(name: string): CallStats {
+    let stats = this.functions.get(name);
+    if (!stats) {
+      stats = {count: 0, time: 0};
+      this.functions.set(name, stats);
+    }
+    return stats;
+  }
+}
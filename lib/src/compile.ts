@@ -3,16 +3,36 @@
 // https://opensource.org/licenses/MIT.
 
 import {initAsyncCompiler} from './compiler/async';
-import {OptionsWithLegacy, StringOptionsWithLegacy} from './compiler/utils';
+import {
+  acquireSharedAsyncCompiler,
+  acquireSharedCompiler,
+} from './compiler/shared';
+import {
+  HostCompileResult,
+  OptionsWithLegacy,
+  StringOptionsWithLegacy,
+} from './compiler/utils';
 import {initCompiler} from './compiler/sync';
-import {CompileResult} from './vendor/sass';
 
-export {NodePackageImporter} from './importer-registry';
+export {
+  AliasImporter,
+  AliasImporterOptions,
+  NodePackageImporter,
+} from './importer-registry';
 
 export function compile(
   path: string,
   options?: OptionsWithLegacy<'sync'>,
-): CompileResult {
+): HostCompileResult {
+  if (options?.reuseCompiler) {
+    const compiler = acquireSharedCompiler();
+    try {
+      return compiler.compile(path, options);
+    } finally {
+      compiler.release();
+    }
+  }
+
   const compiler = initCompiler();
   try {
     return compiler.compile(path, options);
@@ -24,7 +44,16 @@ export function compile(
 export function compileString(
   source: string,
   options?: StringOptionsWithLegacy<'sync'>,
-): CompileResult {
+): HostCompileResult {
+  if (options?.reuseCompiler) {
+    const compiler = acquireSharedCompiler();
+    try {
+      return compiler.compileString(source, options);
+    } finally {
+      compiler.release();
+    }
+  }
+
   const compiler = initCompiler();
   try {
     return compiler.compileString(source, options);
@@ -36,7 +65,16 @@ export function compileString(
 export async function compileAsync(
   path: string,
   options?: OptionsWithLegacy<'async'>,
-): Promise<CompileResult> {
+): Promise<HostCompileResult> {
+  if (options?.reuseCompiler) {
+    const compiler = await acquireSharedAsyncCompiler();
+    try {
+      return await compiler.compileAsync(path, options);
+    } finally {
+      compiler.release();
+    }
+  }
+
   const compiler = await initAsyncCompiler();
   try {
     return await compiler.compileAsync(path, options);
@@ -48,7 +86,16 @@ export async function compileAsync(
 export async function compileStringAsync(
   source: string,
   options?: StringOptionsWithLegacy<'async'>,
-): Promise<CompileResult> {
+): Promise<HostCompileResult> {
+  if (options?.reuseCompiler) {
+    const compiler = await acquireSharedAsyncCompiler();
+    try {
+      return await compiler.compileStringAsync(source, options);
+    } finally {
+      compiler.release();
+    }
+  }
+
   const compiler = await initAsyncCompiler();
   try {
     return await compiler.compileStringAsync(source, options);
@@ -4,9 +4,20 @@
 
 import * as fs from 'fs';
 import {chdir} from 'process';
+import * as asyncModule from './compiler/async';
 import {AsyncCompiler, initAsyncCompiler} from './compiler/async';
 import * as compilerModule from './compiler/utils';
+import {AsyncCompilerPool, initAsyncCompilerPool} from './compiler/pool';
+import {
+  acquireSharedAsyncCompiler,
+  acquireSharedCompiler,
+} from './compiler/shared';
 import {Compiler, initCompiler} from './compiler/sync';
+import {compileStringAsync} from './compile';
+import {Exception} from './exception';
+import {ImporterCache} from './importer-cache';
+import {HostImporterResult} from './input-source-maps';
+import {Importer, Value} from './vendor/sass';
 
 const createDispatcher = jest.spyOn(compilerModule, 'createDispatcher');
 function getIdHistory(): number[] {
@@ -57,6 +68,174 @@ describe('compiler', () => {
     fs.rmSync('foo.scss');
   });
 
+  it('times out compilations that take too long', () => {
+    expect(() =>
+      compiler.compileString('@use "foo"', {
+        // Leave the compiler plenty of time to reach the importer, so that the
+        // timeout only expires while the importer is running.
+        timeout: 500,
+        importers: [
+          {
+            canonicalize: () => {
+              Atomics.wait(
+                new Int32Array(new SharedArrayBuffer(4)),
+                0,
+                0,
+                1000,
+              );
+              return null;
+            },
+            load: () => null,
+          },
+        ],
+      }),
+    ).toThrow(
+      'Compilation timed out after 500ms while waiting for ' +
+        'importer canonicalize("foo")',
+    );
+    expect(compiler.compileString('a {b: c}').css).toBe('a {\n  b: c;\n}');
+  });
+
+  it('restarts a compiler that is stuck', () => {
+    expect(() =>
+      compiler.compileString('@while true {}', {timeout: 100}),
+    ).toThrow(
+      'Compilation timed out after 100ms while the compiler was running.',
+    );
+    expect(compiler.compileString('a {b: c}').css).toBe('a {\n  b: c;\n}');
+  });
+
+  it('collects the dependency graph', () => {
+    const result = compiler.compileString('@use "u:foo"', {
+      collectDependencyGraph: true,
+      importers: [
+        {
+          canonicalize: url => new URL(url.replace(/^u:/, 'c:')),
+          load: url => ({
+            contents: url.pathname === 'foo' ? '@import "u:bar"' : '',
+            syntax: 'scss' as const,
+          }),
+          nonCanonicalScheme: 'u',
+        },
+      ],
+    });
+    expect(result.dependencyGraph!.nodes.map(url => url.href)).toEqual([
+      'c:foo',
+      'c:bar',
+    ]);
+    expect(result.dependencyGraph!.edges).toEqual([
+      {from: null, to: new URL('c:foo'), url: 'u:foo', fromImport: false},
+      {
+        from: new URL('c:foo'),
+        to: new URL('c:bar'),
+        url: 'u:bar',
+        fromImport: true,
+      },
+    ]);
+  });
+
+  it('reuses cached importer results across compilations', () => {
+    const importerCache = new ImporterCache();
+    const canonicalize = jest.fn((url: string) => new URL(url));
+    const load = jest.fn(() => ({
+      contents: 'a {b: c}',
+      syntax: 'scss' as const,
+    }));
+    const options = {importerCache, importers: [{canonicalize, load}]};
+
+    compiler.compileString('@use "u:foo"', options);
+    compiler.compileString('@use "u:foo"', options);
+    expect(canonicalize).toHaveBeenCalledTimes(1);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    importerCache.invalidate('u:foo');
+    compiler.compileString('@use "u:foo"', options);
+    expect(canonicalize).toHaveBeenCalledTimes(2);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('composes cached loads with their input source maps', () => {
+    const load = jest.fn((): HostImporterResult => ({
+      contents: 'a {b: c}',
+      syntax: 'scss',
+      sourceMap: {
+        version: '3',
+        sources: ['original.txt'],
+        names: [],
+        mappings: 'AAAA',
+      },
+    }));
+    const options = {
+      importerCache: new ImporterCache(),
+      importers: [{canonicalize: (url: string) => new URL(url), load}],
+      sourceMap: true,
+    };
+
+    for (let i = 0; i < 2; i++) {
+      const result = compiler.compileString('@use "u:foo"', options);
+      expect(result.sourceMap!.sources).toEqual(['original.txt']);
+    }
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('collects diagnostics', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation();
+    try {
+      const result = compiler.compileString('@debug "a"; @warn "b"', {
+        collectDiagnostics: true,
+      });
+      expect(result.diagnostics).toMatchObject([
+        {severity: 'debug', message: 'a'},
+        {severity: 'warning', message: 'b', stack: expect.any(String)},
+      ]);
+
+      try {
+        compiler.compileString('@warn "c"; @error "d"', {
+          collectDiagnostics: true,
+        });
+        throw new Error('Expected the compilation to fail');
+      } catch (error) {
+        expect((error as Exception).diagnostics).toMatchObject([
+          {severity: 'warning', message: 'c'},
+        ]);
+      }
+      expect(consoleError).not.toHaveBeenCalled();
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('reports deprecations', () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation();
+    try {
+      const result = compiler.compileString(
+        'a {b: legacy-red(red); c: ' + Array(7).fill('(1/2)').join(' + ') + '}',
+        {
+          url: new URL('u:style'),
+          deprecationReport: true,
+          functions: {
+            'legacy-red($color)': args => {
+              void args[0].assertColor().red;
+              return args[0];
+            },
+          },
+        },
+      );
+      const report = result.deprecationReport!;
+      expect(Object.keys(report).sort()).toEqual(['color-4-api', 'slash-div']);
+      expect(report['slash-div'].count).toBe(7);
+      expect(report['slash-div'].files).toEqual({'u:style': 7});
+      expect(report['slash-div'].samples).toHaveLength(5);
+      expect(report['color-4-api']).toMatchObject({count: 1, files: {}});
+      expect(consoleWarn).not.toHaveBeenCalled();
+      expect(consoleError).not.toHaveBeenCalled();
+    } finally {
+      consoleWarn.mockRestore();
+      consoleError.mockRestore();
+    }
+  });
+
   describe('compilation ID', () => {
     it('resets after callback compilations complete', () => {
       compiler.compileString('@use "foo"', {importers});
@@ -72,6 +251,29 @@ describe('compiler', () => {
   });
 });
 
+describe('compiler with restartOnCrash', () => {
+  it('fails the running compilation and keeps compiling', () => {
+    const compiler = initCompiler({restartOnCrash: true});
+    try {
+      expect(() =>
+        compiler.compileString(
+          '@warn "crash"; $i: 0; @while $i < 1e7 {$i: $i + 1}',
+          {
+            logger: {
+              // Kill the compiler from a callback that doesn't need a
+              // response, so that nothing is written to it while it exits.
+              warn: () => compiler['process'].kill('SIGKILL'),
+            },
+          },
+        ),
+      ).toThrow('Embedded compiler exited unexpectedly with signal SIGKILL');
+      expect(compiler.compileString('a {b: c}').css).toBe('a {\n  b: c;\n}');
+    } finally {
+      compiler.dispose();
+    }
+  });
+});
+
 describe('asyncCompiler', () => {
   let asyncCompiler: AsyncCompiler;
 
@@ -107,6 +309,232 @@ describe('asyncCompiler', () => {
     expect(logger2).toHaveBeenCalledTimes(1);
   });
 
+  describe('with an abort signal', () => {
+    it('rejects if the signal has already been aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      await expect(
+        asyncCompiler.compileStringAsync('', {signal: controller.signal}),
+      ).rejects.toHaveProperty('name', 'AbortError');
+      expect(getIdHistory()).toEqual([]);
+    });
+
+    it('rejects with the abort reason', async () => {
+      const controller = new AbortController();
+      const reason = new Error('stale');
+      await expect(
+        asyncCompiler.compileStringAsync('@use "foo"', {
+          signal: controller.signal,
+          importers: [
+            {
+              canonicalize: () => {
+                controller.abort(reason);
+                return new Promise<null>(() => {});
+              },
+              load: () => null,
+            },
+          ],
+        }),
+      ).rejects.toBe(reason);
+    });
+
+    it('stops calling importers and loggers', async () => {
+      const controller = new AbortController();
+      const logger = jest.fn();
+      const load = jest.fn(() => ({contents: '', syntax: 'scss' as const}));
+      await expect(
+        asyncCompiler.compileStringAsync('@use "foo"; @debug ""', {
+          signal: controller.signal,
+          logger: {debug: logger},
+          importers: [
+            {
+              canonicalize: () => {
+                controller.abort();
+                return new URL('foo:bar');
+              },
+              load,
+            },
+          ],
+        }),
+      ).rejects.toHaveProperty('name', 'AbortError');
+      // Wait for the compiler to finish the aborted compilation.
+      await asyncCompiler.compileStringAsync('');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(load).not.toHaveBeenCalled();
+      expect(logger).not.toHaveBeenCalled();
+    });
+
+    it("doesn't affect concurrent compilations", async () => {
+      const controller = new AbortController();
+      const aborted = asyncCompiler.compileStringAsync('@use "foo"', {
+        signal: controller.signal,
+        importers: [
+          {
+            canonicalize: () => new Promise<null>(() => {}),
+            load: () => null,
+          },
+        ],
+      });
+      const other = asyncCompiler.compileStringAsync('a {b: c}');
+      controller.abort();
+      await expect(aborted).rejects.toHaveProperty('name', 'AbortError');
+      await expect(other).resolves.toMatchObject({css: 'a {\n  b: c;\n}'});
+    });
+  });
+
+  describe('with a timeout', () => {
+    it('names the requests the compilation was waiting for', async () => {
+      await expect(
+        asyncCompiler.compileStringAsync('@use "foo"', {
+          timeout: 100,
+          importers: [
+            {
+              canonicalize: () => new Promise<null>(() => {}),
+              load: () => null,
+            },
+          ],
+        }),
+      ).rejects.toThrow(
+        'Compilation timed out after 100ms while waiting for ' +
+          'importer canonicalize("foo")',
+      );
+      await expect(
+        asyncCompiler.compileStringAsync('a {b: c}'),
+      ).resolves.toMatchObject({css: 'a {\n  b: c;\n}'});
+    });
+
+    it('restarts a compiler that is stuck', async () => {
+      await expect(
+        asyncCompiler.compileStringAsync('@while true {}', {timeout: 100}),
+      ).rejects.toThrow(
+        'Compilation timed out after 100ms while the compiler was running.',
+      );
+      await expect(
+        asyncCompiler.compileStringAsync('a {b: c}'),
+      ).resolves.toMatchObject({css: 'a {\n  b: c;\n}'});
+    });
+  });
+
+  it('collects stats', async () => {
+    const importer = {
+      canonicalize: (url: string) => new URL(url),
+      load: () => ({contents: 'a {b: c}', syntax: 'scss' as const}),
+    };
+    const result = await asyncCompiler.compileStringAsync(
+      '@use "u:foo"; @use "u:bar"',
+      {collectStats: true, importers: [importer]},
+    );
+    const stats = result.stats!;
+    expect(stats.wallTime).toBeGreaterThan(0);
+    expect(stats.importers).toHaveLength(1);
+    expect(stats.importers[0].importer).toBe(importer);
+    expect(stats.importers[0].canonicalize.count).toBe(2);
+    expect(stats.importers[0].load.count).toBe(2);
+    expect(stats.functions).toEqual({});
+    expect(stats.cssBytes).toBe(Buffer.byteLength(result.css));
+  });
+
+  it('reports host-side deprecations only for the compilation that raised them', async () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+    try {
+      const functions = {
+        'legacy-red($color)': (args: Value[]) => {
+          void args[0].assertColor().red;
+          return args[0];
+        },
+      };
+      const [raised, other] = await Promise.all([
+        asyncCompiler.compileStringAsync('a {b: legacy-red(red)}', {
+          deprecationReport: true,
+          functions,
+        }),
+        asyncCompiler.compileStringAsync('a {b: c}', {
+          deprecationReport: true,
+          functions,
+        }),
+      ]);
+      expect(raised.deprecationReport!['color-4-api']).toMatchObject({
+        count: 1,
+      });
+      expect(other.deprecationReport).toEqual({});
+      expect(consoleWarn).not.toHaveBeenCalled();
+    } finally {
+      consoleWarn.mockRestore();
+    }
+  });
+
+  describe('compileMany', () => {
+    it('returns the outcome of each input in order', async () => {
+      const onProgress = jest.fn();
+      const outcomes = await asyncCompiler.compileMany(
+        [{source: 'a {b: c}'}, {source: 'invalid'}, {source: 'd {e: f}'}],
+        {},
+        {onProgress},
+      );
+      expect(outcomes.map(outcome => outcome.result?.css)).toEqual([
+        'a {\n  b: c;\n}',
+        undefined,
+        'd {\n  e: f;\n}',
+      ]);
+      expect(outcomes[1].error).toBeDefined();
+      expect(onProgress.mock.calls.map(([event]) => event.completed)).toEqual([
+        1, 2, 3,
+      ]);
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({input: {source: 'invalid'}, total: 3}),
+      );
+    });
+
+    it('runs at most `concurrency` compilations at once', async () => {
+      await asyncCompiler.compileMany(
+        [{source: ''}, {source: ''}, {source: ''}],
+        {},
+        {concurrency: 1},
+      );
+      expect(getIdHistory()).toEqual([1, 1, 1]);
+    });
+
+    it('keeps importer state separate for each input', async () => {
+      // Only the first load has an input source map, which must not leak into
+      // the second input's compilation.
+      let sourceMap: HostImporterResult['sourceMap'] = {
+        version: '3',
+        sources: ['original.txt'],
+        names: [],
+        mappings: 'AAAA',
+      };
+      const importer = {
+        canonicalize: (url: string) => new URL(url),
+        load: (): HostImporterResult => {
+          const result = {
+            contents: 'a {b: c}',
+            syntax: 'scss' as const,
+            sourceMapUrl: new URL('u:foo'),
+            sourceMap,
+          };
+          sourceMap = undefined;
+          return result;
+        },
+      };
+      const outcomes = await asyncCompiler.compileMany(
+        [{source: '@use "u:foo"'}, {source: '@use "u:foo"'}],
+        {sourceMap: true, importers: [importer]},
+        {concurrency: 1},
+      );
+      expect(
+        outcomes.map(outcome => outcome.result!.sourceMap!.sources),
+      ).toEqual([['original.txt'], ['u:foo']]);
+    });
+
+    it('rejects an invalid concurrency', async () => {
+      await expect(
+        asyncCompiler.compileMany([], {}, {concurrency: 0}),
+      ).rejects.toThrow(
+        'batchOptions.concurrency must be a positive integer, was 0',
+      );
+    });
+  });
+
   describe('compilation ID', () => {
     it('resets after concurrent compilations complete', async () => {
       await Promise.all(
@@ -128,3 +556,225 @@ describe('asyncCompiler', () => {
     });
   });
 });
+
+describe('asyncCompiler after a crash', () => {
+  /**
+   * Returns importers whose loads never finish, along with a promise that
+   * resolves once the compiler is waiting on a load.
+   */
+  function hangingImporters(): {
+    importers: Importer<'async'>[];
+    loading: Promise<void>;
+  } {
+    let startedLoading!: () => void;
+    const loading = new Promise<void>(resolve => (startedLoading = resolve));
+    const importers = [
+      {
+        canonicalize: () => new URL('foo:bar'),
+        load: () => {
+          startedLoading();
+          return new Promise<null>(() => {});
+        },
+      },
+    ];
+    return {importers, loading};
+  }
+
+  it('fails in-flight compilations', async () => {
+    const compiler = await initAsyncCompiler();
+    const {importers, loading} = hangingImporters();
+    const compilation = compiler.compileStringAsync('@use "foo"', {importers});
+    await loading;
+    compiler['process'].kill('SIGKILL');
+    await expect(compilation).rejects.toThrow(
+      'Embedded compiler exited unexpectedly with signal SIGKILL',
+    );
+    await compiler.dispose();
+  });
+
+  it('keeps compiling with restartOnCrash', async () => {
+    const compiler = await initAsyncCompiler({restartOnCrash: true});
+    const {importers, loading} = hangingImporters();
+    const compilation = compiler.compileStringAsync('@use "foo"', {importers});
+    await loading;
+    compiler['process'].kill('SIGKILL');
+    await expect(compilation).rejects.toThrow(
+      'Embedded compiler exited unexpectedly with signal SIGKILL',
+    );
+    await expect(
+      compiler.compileStringAsync('a {b: c}'),
+    ).resolves.toMatchObject({css: 'a {\n  b: c;\n}'});
+    await compiler.dispose();
+  });
+});
+
+describe('asyncCompilerPool', () => {
+  let pool: AsyncCompilerPool;
+
+  afterEach(async () => {
+    await pool.dispose();
+  });
+
+  it('runs compilations across multiple processes', async () => {
+    pool = await initAsyncCompilerPool({size: 2});
+    expect(pool.size).toBe(2);
+    const results = await Promise.all(
+      Array.from({length: 4}, (_, i) => pool.compileStringAsync(`a {b: ${i}}`)),
+    );
+    expect(results.map(result => result.css)).toEqual([
+      'a {\n  b: 0;\n}',
+      'a {\n  b: 1;\n}',
+      'a {\n  b: 2;\n}',
+      'a {\n  b: 3;\n}',
+    ]);
+    // Each process starts its own compilation IDs from 1.
+    expect(getIdHistory()).toEqual([1, 1, 2, 2]);
+  });
+
+  it('queues compilations beyond maxCompilationsPerProcess', async () => {
+    pool = await initAsyncCompilerPool({size: 1, maxCompilationsPerProcess: 1});
+    await Promise.all(
+      Array.from({length: 3}, () => pool.compileStringAsync('')),
+    );
+    expect(getIdHistory()).toEqual([1, 1, 1]);
+  });
+
+  it('drops queued compilations whose signal fires', async () => {
+    pool = await initAsyncCompilerPool({size: 1, maxCompilationsPerProcess: 1});
+    const running = pool.compileStringAsync('@use "foo"', {
+      importers: [
+        {
+          canonicalize: () =>
+            new Promise(resolve =>
+              setTimeout(() => resolve(new URL('foo:bar')), 100),
+            ),
+          load: () => ({contents: '', syntax: 'scss'}),
+        },
+      ],
+    });
+    const controller = new AbortController();
+    const queued = pool.compileStringAsync('', {signal: controller.signal});
+    controller.abort();
+    await expect(queued).rejects.toHaveProperty('name', 'AbortError');
+    await running;
+    expect(getIdHistory()).toEqual([1]);
+  });
+
+  it('keeps working after failed compilations', async () => {
+    pool = await initAsyncCompilerPool({size: 1, maxCompilationsPerProcess: 1});
+    const results = await Promise.allSettled([
+      pool.compileStringAsync('invalid'),
+      pool.compileStringAsync(''),
+    ]);
+    expect(results.map(result => result.status)).toEqual([
+      'rejected',
+      'fulfilled',
+    ]);
+  });
+
+  it('throws after being disposed', async () => {
+    pool = await initAsyncCompilerPool({size: 1});
+    await pool.dispose();
+    expect(() => pool.compileStringAsync('')).toThrow(
+      'Async compiler pool has already been disposed',
+    );
+  });
+});
+
+describe('initAsyncCompilerPool', () => {
+  it('rejects an invalid size', async () => {
+    await expect(initAsyncCompilerPool({size: 0})).rejects.toThrow(
+      'options.size must be a positive integer',
+    );
+  });
+
+  it('rejects an invalid maxCompilationsPerProcess', async () => {
+    await expect(
+      initAsyncCompilerPool({maxCompilationsPerProcess: 1.5}),
+    ).rejects.toThrow(
+      'options.maxCompilationsPerProcess must be a positive integer',
+    );
+  });
+
+  it('disposes the compilers that started if one fails', async () => {
+    const started = await initAsyncCompiler();
+    const dispose = jest.spyOn(started, 'dispose');
+    const init = jest
+      .spyOn(asyncModule, 'initAsyncCompiler')
+      .mockResolvedValueOnce(started)
+      .mockRejectedValueOnce(new Error('spawn failed'));
+    try {
+      await expect(initAsyncCompilerPool({size: 2})).rejects.toThrow(
+        'spawn failed',
+      );
+      expect(dispose).toHaveBeenCalled();
+    } finally {
+      init.mockRestore();
+    }
+  });
+});
+
+describe('shared compiler', () => {
+  it('is shared between handles', async () => {
+    const disposeSpy = jest.spyOn(AsyncCompiler.prototype, 'dispose');
+    try {
+      const first = await acquireSharedAsyncCompiler({idleTimeout: 0});
+      const second = await acquireSharedAsyncCompiler({idleTimeout: 0});
+      await Promise.all([
+        first.compileStringAsync('a {b: c}'),
+        second.compileStringAsync('a {b: c}'),
+      ]);
+
+      first.release();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(disposeSpy).not.toHaveBeenCalled();
+
+      second.release();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(disposeSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      disposeSpy.mockRestore();
+    }
+  });
+
+  it('starts a new compiler after one fails to start', async () => {
+    const error = new Error('failed to start');
+    jest.spyOn(asyncModule, 'initAsyncCompiler').mockRejectedValueOnce(error);
+    await expect(
+      Promise.all([
+        acquireSharedAsyncCompiler({idleTimeout: 0}),
+        acquireSharedAsyncCompiler({idleTimeout: 0}),
+      ]),
+    ).rejects.toBe(error);
+
+    const compiler = await acquireSharedAsyncCompiler({idleTimeout: 0});
+    try {
+      await expect(
+        compiler.compileStringAsync('a {b: c}'),
+      ).resolves.toMatchObject({css: 'a {\n  b: c;\n}'});
+    } finally {
+      compiler.release();
+    }
+  });
+
+  it('throws after the handle is released', () => {
+    const compiler = acquireSharedCompiler({idleTimeout: 0});
+    compiler.release();
+    compiler.release();
+    expect(() => compiler.compileString('a {b: c}')).toThrow(
+      'Shared compiler handle has been released',
+    );
+  });
+
+  it('is used by the one-shot functions with reuseCompiler', async () => {
+    await Promise.all([
+      compileStringAsync('a {b: c}', {reuseCompiler: true}),
+      compileStringAsync('a {b: c}', {reuseCompiler: true}),
+    ]);
+    expect(getIdHistory()).toEqual([1, 2]);
+
+    // Shut the shared compiler down rather than waiting for it to go idle.
+    acquireSharedCompiler({idleTimeout: 0}).release();
+    (await acquireSharedAsyncCompiler({idleTimeout: 0})).release();
+  });
+});
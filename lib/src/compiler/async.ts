@@ -3,30 +3,44 @@
 // https://opensource.org/licenses/MIT.
 
 import * as child_process from 'child_process';
+import * as os from 'os';
 
 import {Observable} from 'rxjs';
 import {takeUntil} from 'rxjs/operators';
 
 import * as path from 'path';
 import {
+  CompilationCollectors,
+  CompilerInitOptions,
+  HostCompileResult,
   OptionsWithLegacy,
   StringOptionsWithLegacy,
+  attributeDeprecations,
   createDispatcher,
   handleCompileResponse,
   handleLogEvent,
+  hostFunctions,
   newCompilePathRequest,
   newCompileStringRequest,
   promiseWithResolvers,
+  unexpectedExitError,
 } from './utils';
+import {StatsCollector} from '../compile-stats';
 import {compilerCommand} from '../compiler-path';
-import {activeDeprecationOptions} from '../deprecations';
+import {DependencyGraphBuilder} from '../dependency-graph';
+import {TimeoutError} from '../exception';
+import {DeprecationReportBuilder} from '../deprecation-report';
+import {
+  activeDeprecationOptions,
+  activeDeprecationReports,
+} from '../deprecations';
 import {FunctionRegistry} from '../function-registry';
 import {ImporterRegistry} from '../importer-registry';
 import {MessageTransformer} from '../message-transformer';
 import {PacketTransformer} from '../packet-transformer';
 import * as utils from '../utils';
 import * as proto from '../vendor/embedded_sass_pb';
-import {CompileResult} from '../vendor/sass';
+import {Syntax} from '../vendor/sass';
 
 /**
  * Flag allowing the constructor passed by `initAsyncCompiler` so we can
@@ -35,31 +49,76 @@ import {CompileResult} from '../vendor/sass';
  */
 const initFlag = Symbol();
 
-/** An asynchronous wrapper for the embedded Sass compiler */
-export class AsyncCompiler {
-  /** The underlying process that's being wrapped. */
-  private readonly process = (() => {
-    let command = compilerCommand[0];
-    let args = [...compilerCommand.slice(1), '--embedded'];
-    const options: child_process.SpawnOptions = {
-      // Use the command's cwd so the compiler survives the removal of the
-      // current working directory.
-      // https://github.com/sass/embedded-host-node/pull/261#discussion_r1438712923
-      cwd: path.dirname(compilerCommand[0]),
-      windowsHide: true,
+/** Spawns a new embedded compiler process. */
+function spawnCompiler(): child_process.ChildProcess {
+  let command = compilerCommand[0];
+  let args = [...compilerCommand.slice(1), '--embedded'];
+  const options: child_process.SpawnOptions = {
+    // Use the command's cwd so the compiler survives the removal of the
+    // current working directory.
+    // https://github.com/sass/embedded-host-node/pull/261#discussion_r1438712923
+    cwd: path.dirname(compilerCommand[0]),
+    windowsHide: true,
+  };
+
+  // Node forbids launching .bat and .cmd without a shell due to CVE-2024-27980,
+  // and DEP0190 forbids passing an argument list *with* shell: true. To work
+  // around this, we have to manually concatenate the arguments.
+  if (['.bat', '.cmd'].includes(path.extname(command).toLowerCase())) {
+    command = `${command} ${args!.join(' ')}`;
+    args = [];
+    options.shell = true;
+  }
+
+  return child_process.spawn(command, args, options);
+}
+
+/**
+ * An input to `AsyncCompiler.compileMany()`: either the path of a file to
+ * compile, or the source of a stylesheet along with how to parse it.
+ */
+export type CompileManyInput =
+  | string
+  | {
+      source: string;
+      syntax?: Syntax;
+      url?: URL;
     };
 
-    // Node forbids launching .bat and .cmd without a shell due to CVE-2024-27980,
-    // and DEP0190 forbids passing an argument list *with* shell: true. To work
-    // around this, we have to manually concatenate the arguments.
-    if (['.bat', '.cmd'].includes(path.extname(command).toLowerCase())) {
-      command = `${command} ${args!.join(' ')}`;
-      args = [];
-      options.shell = true;
-    }
+/** Options for `AsyncCompiler.compileMany()`. */
+export interface CompileManyOptions {
+  /**
+   * The maximum number of inputs to compile at once.
+   *
+   * Defaults to the amount of parallelism available on the current machine.
+   */
+  concurrency?: number;
 
-    return child_process.spawn(command, args, options);
-  })();
+  /** A callback that's called each time an input finishes compiling. */
+  onProgress?: (progress: CompileManyProgress) => void;
+}
+
+/**
+ * The outcome of compiling one input to `AsyncCompiler.compileMany()`. Exactly
+ * one of `result` and `error` is set.
+ */
+export type CompileManyOutcome =
+  | {input: CompileManyInput; result: HostCompileResult; error?: undefined}
+  | {input: CompileManyInput; result?: undefined; error: unknown};
+
+/** An event passed to `CompileManyOptions.onProgress`. */
+export type CompileManyProgress = CompileManyOutcome & {
+  /** The number of inputs that have finished compiling, including this one. */
+  completed: number;
+
+  /** The total number of inputs. */
+  total: number;
+};
+
+/** An asynchronous wrapper for the embedded Sass compiler */
+export class AsyncCompiler {
+  /** The underlying process that's being wrapped. */
+  private process!: child_process.ChildProcess;
 
   /** The next compilation ID. */
   private compilationId = 1;
@@ -72,27 +131,76 @@ export class AsyncCompiler {
   /** Whether the underlying compiler has already exited. */
   private disposed = false;
 
+  /** Whether to start a new process if the current one exits unexpectedly. */
+  private readonly restartOnCrash: boolean;
+
   /** Reusable message transformer for all compilations.  */
-  private readonly messageTransformer: MessageTransformer;
+  private messageTransformer!: MessageTransformer;
 
   /** The child process's exit event. */
-  private readonly exit$ = new Promise<number | null>(resolve => {
-    this.process.on('exit', code => resolve(code));
-  });
-
-  /** The buffers emitted by the child process's stdout. */
-  private readonly stdout$ = new Observable<Buffer>(observer => {
-    this.process.stdout!.on('data', buffer => observer.next(buffer));
-  }).pipe(takeUntil(this.exit$));
-
-  /** The buffers emitted by the child process's stderr. */
-  private readonly stderr$ = new Observable<Buffer>(observer => {
-    this.process.stderr!.on('data', buffer => observer.next(buffer));
-  }).pipe(takeUntil(this.exit$));
-
-  /** Writes `buffer` to the child process's stdin. */
-  private writeStdin(buffer: Buffer): void {
-    this.process.stdin!.write(buffer);
+  private exit$!: Promise<number | null>;
+
+  /**
+   * Starts a new child process and wires up a fresh message transformer to
+   * it.
+   *
+   * If the process exits before the compiler is disposed, all compilations
+   * running in it fail. If `restartOnCrash` is set, a new process then
+   * replaces it.
+   */
+  private spawn(): void {
+    const process_ = spawnCompiler();
+    this.process = process_;
+
+    // Writes to a process that crashed fail with EPIPE. The compilations that
+    // made those writes are failed by the exit handler below instead.
+    process_.stdin!.on('error', () => {});
+
+    const exit$ = new Promise<[number | null, NodeJS.Signals | null]>(
+      resolve => {
+        process_.on('exit', (code, signal) => resolve([code, signal]));
+      },
+    );
+    this.exit$ = exit$.then(([code]) => code);
+
+    // The buffers emitted by the child process's stdout. This errors if the
+    // process exits before the compiler is disposed.
+    const stdout$ = new Observable<Buffer>(observer => {
+      process_.stdout!.on('data', buffer => observer.next(buffer));
+      void exit$.then(([code, signal]) => {
+        if (this.disposed) {
+          observer.complete();
+          return;
+        }
+
+        observer.error(unexpectedExitError(code, signal));
+        if (this.restartOnCrash && this.process === process_) this.spawn();
+      });
+    });
+
+    // The buffers emitted by the child process's stderr.
+    const stderr$ = new Observable<Buffer>(observer => {
+      process_.stderr!.on('data', buffer => observer.next(buffer));
+    }).pipe(takeUntil(exit$));
+
+    stderr$.subscribe(data => process.stderr.write(data));
+    const packetTransformer = new PacketTransformer(stdout$, buffer => {
+      process_.stdin!.write(buffer);
+    });
+    this.messageTransformer = new MessageTransformer(
+      packetTransformer.outboundProtobufs$,
+      packet => packetTransformer.writeInboundProtobuf(packet),
+    );
+  }
+
+  /**
+   * Kills the current process and replaces it with a new one. Compilations
+   * running in the old process fail.
+   */
+  private restart(): void {
+    const oldProcess = this.process;
+    this.spawn();
+    oldProcess.kill();
   }
 
   /** Guards against using a disposed compiler. */
@@ -111,23 +219,48 @@ export class AsyncCompiler {
     request: proto.InboundMessage_CompileRequest,
     importers: ImporterRegistry<'async'>,
     options?: OptionsWithLegacy<'async'> & {legacy?: boolean},
-  ): Promise<CompileResult> {
+  ): Promise<HostCompileResult> {
+    const signal = options?.signal;
+    signal?.throwIfAborted();
+
     const optionsKey = Symbol();
     activeDeprecationOptions.set(optionsKey, options ?? {});
     try {
-      const functions = new FunctionRegistry(options?.functions);
+      const functions = new FunctionRegistry(hostFunctions(options));
 
+      const dependencyGraph = options?.collectDependencyGraph
+        ? new DependencyGraphBuilder()
+        : undefined;
+      const stats = options?.collectStats
+        ? new StatsCollector(importers)
+        : undefined;
+      const collectors: CompilationCollectors = {
+        inputSourceMaps: importers.inputSourceMaps,
+        dependencyGraph,
+        stats,
+        diagnostics: options?.collectDiagnostics ? [] : undefined,
+        deprecationReport: options?.deprecationReport
+          ? new DeprecationReportBuilder()
+          : undefined,
+      };
+      if (collectors.deprecationReport) {
+        activeDeprecationReports.set(optionsKey, collectors.deprecationReport);
+      }
+      const handlers = attributeDeprecations<'async'>(optionsKey, {
+        handleImportRequest: request => importers.import(request),
+        handleFileImportRequest: request => importers.fileImport(request),
+        handleCanonicalizeRequest: request => importers.canonicalize(request),
+        handleFunctionCallRequest: request => functions.call(request),
+      });
       const dispatcher = createDispatcher<'async'>(
         this.compilationId++,
         this.messageTransformer,
-        {
-          handleImportRequest: request => importers.import(request),
-          handleFileImportRequest: request => importers.fileImport(request),
-          handleCanonicalizeRequest: request => importers.canonicalize(request),
-          handleFunctionCallRequest: request => functions.call(request),
-        },
+        stats ? stats.instrument(handlers) : handlers,
+        dependencyGraph,
+      );
+      dispatcher.logEvents$.subscribe(event =>
+        handleLogEvent(options, event, collectors),
       );
-      dispatcher.logEvents$.subscribe(event => handleLogEvent(options, event));
 
       // Avoid `new Promise()` here because `dispatcher.sendCompilerequest` can
       // run its callback synchronously, so `compilation` needs to be assigned
@@ -152,34 +285,71 @@ export class AsyncCompiler {
         }
       });
 
-      return handleCompileResponse(await compilation);
+      const timeout = options?.timeout;
+      if (!signal && timeout === undefined) {
+        return handleCompileResponse(await compilation, options, collectors);
+      }
+
+      // If the compilation is aborted or times out, the compiler still finishes
+      // it in the background. Its ID stays reserved until then, but its result
+      // is ignored.
+      const {promise: cancelled, reject: cancel} =
+        promiseWithResolvers<never>();
+      function onAbort(): void {
+        dispatcher.abort();
+        cancel(signal!.reason);
+      }
+      signal?.addEventListener('abort', onAbort, {once: true});
+      const timer =
+        timeout === undefined
+          ? undefined
+          : setTimeout(() => {
+              const error = new TimeoutError(
+                timeout,
+                dispatcher.pendingRequests,
+              );
+              if (error.pendingCalls.length === 0) {
+                // The compiler itself is stuck, and the only way to stop it is
+                // to restart it.
+                this.restart();
+              } else {
+                dispatcher.abort();
+              }
+              cancel(error);
+            }, timeout);
+      compilation.catch(() => {});
+      try {
+        return handleCompileResponse(
+          await Promise.race([compilation, cancelled]),
+          options,
+          collectors,
+        );
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        clearTimeout(timer);
+      }
     } finally {
       activeDeprecationOptions.delete(optionsKey);
+      activeDeprecationReports.delete(optionsKey);
     }
   }
 
   /** Initialize resources shared across compilations. */
-  constructor(flag: symbol | undefined) {
+  constructor(flag: symbol | undefined, options?: CompilerInitOptions) {
     if (flag !== initFlag) {
       throw utils.compilerError(
         'AsyncCompiler can not be directly constructed. ' +
           'Please use `sass.initAsyncCompiler()` instead',
       );
     }
-    this.stderr$.subscribe(data => process.stderr.write(data));
-    const packetTransformer = new PacketTransformer(this.stdout$, buffer => {
-      this.writeStdin(buffer);
-    });
-    this.messageTransformer = new MessageTransformer(
-      packetTransformer.outboundProtobufs$,
-      packet => packetTransformer.writeInboundProtobuf(packet),
-    );
+    this.restartOnCrash = !!options?.restartOnCrash;
+    this.spawn();
   }
 
   compileAsync(
     path: string,
     options?: OptionsWithLegacy<'async'>,
-  ): Promise<CompileResult> {
+  ): Promise<HostCompileResult> {
     this.throwIfDisposed();
     const importers = new ImporterRegistry(options);
     return this.compileRequestAsync(
@@ -192,7 +362,7 @@ export class AsyncCompiler {
   compileStringAsync(
     source: string,
     options?: StringOptionsWithLegacy<'async'>,
-  ): Promise<CompileResult> {
+  ): Promise<HostCompileResult> {
     this.throwIfDisposed();
     const importers = new ImporterRegistry(options);
     return this.compileRequestAsync(
@@ -202,14 +372,82 @@ export class AsyncCompiler {
     );
   }
 
+  /**
+   * Compiles each of `inputs` with `options`, running up to
+   * `batchOptions.concurrency` compilations at once.
+   *
+   * Resolves with the outcome of each input in the same order as `inputs`. A
+   * failed compilation doesn't affect the others.
+   */
+  async compileMany(
+    inputs: CompileManyInput[],
+    options?: OptionsWithLegacy<'async'>,
+    batchOptions?: CompileManyOptions,
+  ): Promise<CompileManyOutcome[]> {
+    this.throwIfDisposed();
+    const concurrency = batchOptions?.concurrency ?? os.availableParallelism();
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(
+        `batchOptions.concurrency must be a positive integer, was ${concurrency}`,
+      );
+    }
+
+    const outcomes = new Array<CompileManyOutcome>(inputs.length);
+    let nextIndex = 0;
+    let completed = 0;
+    const compileNext = async (): Promise<void> => {
+      while (nextIndex < inputs.length) {
+        const index = nextIndex++;
+        const input = inputs[index];
+        let outcome: CompileManyOutcome;
+        try {
+          this.throwIfDisposed();
+          // Each compilation gets its own registry, since a registry tracks
+          // state for the compilation it belongs to.
+          const importers = new ImporterRegistry(options);
+          const request =
+            typeof input === 'string'
+              ? newCompilePathRequest(input, importers, options)
+              : newCompileStringRequest(input.source, importers, {
+                  ...options,
+                  syntax: input.syntax,
+                  url: input.url,
+                });
+          const result = await this.compileRequestAsync(
+            request,
+            importers,
+            options,
+          );
+          outcome = {input, result};
+        } catch (error) {
+          outcome = {input, error};
+        }
+        outcomes[index] = outcome;
+        completed++;
+        batchOptions?.onProgress?.({
+          ...outcome,
+          completed,
+          total: inputs.length,
+        });
+      }
+    };
+
+    await Promise.all(
+      Array.from({length: Math.min(concurrency, inputs.length)}, compileNext),
+    );
+    return outcomes;
+  }
+
   async dispose(): Promise<void> {
     this.disposed = true;
-    await Promise.all(this.compilations);
+    await Promise.allSettled(this.compilations);
     this.process.stdin!.end();
     await this.exit$;
   }
 }
 
-export async function initAsyncCompiler(): Promise<AsyncCompiler> {
-  return new AsyncCompiler(initFlag);
+export async function initAsyncCompiler(
+  options?: CompilerInitOptions,
+): Promise<AsyncCompiler> {
+  return new AsyncCompiler(initFlag, options);
 }
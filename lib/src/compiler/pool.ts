@@ -0,0 +1,246 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as os from 'os';
+
+import {AsyncCompiler, initAsyncCompiler} from './async';
+import {
+  CompilerInitOptions,
+  HostCompileResult,
+  OptionsWithLegacy,
+  StringOptionsWithLegacy,
+  promiseWithResolvers,
+} from './utils';
+import * as utils from '../utils';
+
+/**
+ * Flag allowing the constructor passed by `initAsyncCompilerPool` so we can
+ * differentiate and throw an error if the `AsyncCompilerPool` is constructed
+ * via `new AsyncCompilerPool`.
+ */
+const initFlag = Symbol();
+
+/**
+ * Options for `initAsyncCompilerPool()`. The options shared with
+ * `initAsyncCompiler()` apply to every process in the pool.
+ */
+export interface AsyncCompilerPoolOptions extends CompilerInitOptions {
+  /**
+   * The number of embedded compiler processes to run.
+   *
+   * Defaults to the amount of parallelism available on the current machine.
+   */
+  size?: number;
+
+  /**
+   * The maximum number of compilations to run concurrently in a single
+   * process. Compilations beyond this limit are queued until a process frees
+   * up.
+   *
+   * Defaults to no limit.
+   */
+  maxCompilationsPerProcess?: number;
+}
+
+/** A compiler in the pool along with the number of compilations it's running. */
+interface PoolEntry {
+  readonly compiler: AsyncCompiler;
+  load: number;
+}
+
+/**
+ * A pool of asynchronous embedded Sass compilers that spreads compilations
+ * across several processes.
+ */
+export class AsyncCompilerPool {
+  /** The compilers in the pool. */
+  private readonly entries: PoolEntry[];
+
+  /** The maximum number of compilations each compiler may run at once. */
+  private readonly maxCompilationsPerProcess: number;
+
+  /**
+   * Callbacks for compilations waiting for a compiler to have capacity, in the
+   * order they were requested.
+   */
+  private readonly queue: Array<(entry: PoolEntry) => void> = [];
+
+  /** A list of active and queued compilations. */
+  private readonly compilations: Set<Promise<void>> = new Set();
+
+  /** Whether the pool has already been disposed. */
+  private disposed = false;
+
+  /** Guards against using a disposed pool. */
+  private throwIfDisposed(): void {
+    if (this.disposed) {
+      throw utils.compilerError(
+        'Async compiler pool has already been disposed',
+      );
+    }
+  }
+
+  /**
+   * Returns the least-loaded compiler with spare capacity, or `undefined` if
+   * every compiler is at `maxCompilationsPerProcess`.
+   */
+  private leastLoaded(): PoolEntry | undefined {
+    let best: PoolEntry | undefined;
+    for (const entry of this.entries) {
+      if (entry.load >= this.maxCompilationsPerProcess) continue;
+      if (!best || entry.load < best.load) best = entry;
+    }
+    return best;
+  }
+
+  /**
+   * Waits for a compiler with spare capacity and reserves a slot on it.
+   *
+   * If `signal` fires while this is waiting, it gives up its place in the queue
+   * and rejects with the signal's reason.
+   */
+  private acquire(signal?: AbortSignal): Promise<PoolEntry> {
+    signal?.throwIfAborted();
+    const entry = this.queue.length === 0 ? this.leastLoaded() : undefined;
+    if (entry) {
+      entry.load++;
+      return Promise.resolve(entry);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        this.queue.splice(this.queue.indexOf(waiter), 1);
+        reject(signal!.reason);
+      };
+      function waiter(entry: PoolEntry): void {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(entry);
+      }
+      signal?.addEventListener('abort', onAbort, {once: true});
+      this.queue.push(waiter);
+    });
+  }
+
+  /**
+   * Releases a slot reserved by `acquire()`, handing it to the next queued
+   * compilation if there is one.
+   */
+  private release(entry: PoolEntry): void {
+    const next = this.queue.shift();
+    if (next) {
+      next(entry);
+    } else {
+      entry.load--;
+    }
+  }
+
+  /** Runs `callback` on the least-loaded compiler in the pool. */
+  private async run(
+    signal: AbortSignal | undefined,
+    callback: (compiler: AsyncCompiler) => Promise<HostCompileResult>,
+  ): Promise<HostCompileResult> {
+    const {promise: done, resolve: markDone} = promiseWithResolvers<void>();
+    this.compilations.add(done);
+    try {
+      const entry = await this.acquire(signal);
+      try {
+        return await callback(entry.compiler);
+      } finally {
+        this.release(entry);
+      }
+    } finally {
+      this.compilations.delete(done);
+      markDone();
+    }
+  }
+
+  /** Initialize the compilers in the pool. */
+  constructor(
+    flag: symbol | undefined,
+    compilers: AsyncCompiler[],
+    maxCompilationsPerProcess: number,
+  ) {
+    if (flag !== initFlag) {
+      throw utils.compilerError(
+        'AsyncCompilerPool can not be directly constructed. ' +
+          'Please use `sass.initAsyncCompilerPool()` instead',
+      );
+    }
+    this.entries = compilers.map(compiler => ({compiler, load: 0}));
+    this.maxCompilationsPerProcess = maxCompilationsPerProcess;
+  }
+
+  /** The number of compiler processes in the pool. */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  compileAsync(
+    path: string,
+    options?: OptionsWithLegacy<'async'>,
+  ): Promise<HostCompileResult> {
+    this.throwIfDisposed();
+    return this.run(options?.signal, compiler =>
+      compiler.compileAsync(path, options),
+    );
+  }
+
+  compileStringAsync(
+    source: string,
+    options?: StringOptionsWithLegacy<'async'>,
+  ): Promise<HostCompileResult> {
+    this.throwIfDisposed();
+    return this.run(options?.signal, compiler =>
+      compiler.compileStringAsync(source, options),
+    );
+  }
+
+  async dispose(): Promise<void> {
+    this.disposed = true;
+    await Promise.all(this.compilations);
+    await Promise.all(this.entries.map(({compiler}) => compiler.dispose()));
+  }
+}
+
+export async function initAsyncCompilerPool(
+  options?: AsyncCompilerPoolOptions,
+): Promise<AsyncCompilerPool> {
+  const size = options?.size ?? os.availableParallelism();
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`options.size must be a positive integer, was ${size}`);
+  }
+
+  const maxCompilationsPerProcess =
+    options?.maxCompilationsPerProcess ?? Infinity;
+  if (
+    maxCompilationsPerProcess !== Infinity &&
+    (!Number.isInteger(maxCompilationsPerProcess) ||
+      maxCompilationsPerProcess < 1)
+  ) {
+    throw new Error(
+      'options.maxCompilationsPerProcess must be a positive integer, was ' +
+        maxCompilationsPerProcess,
+    );
+  }
+
+  const results = await Promise.allSettled(
+    Array.from({length: size}, () =>
+      initAsyncCompiler({restartOnCrash: options?.restartOnCrash}),
+    ),
+  );
+  const compilers: AsyncCompiler[] = [];
+  for (const result of results) {
+    if (result.status === 'fulfilled') compilers.push(result.value);
+  }
+
+  const failure = results.find(
+    (result): result is PromiseRejectedResult => result.status === 'rejected',
+  );
+  if (failure) {
+    // Don't leak the compilers that did start.
+    await Promise.all(compilers.map(compiler => compiler.dispose()));
+    throw failure.reason;
+  }
+  return new AsyncCompilerPool(initFlag, compilers, maxCompilationsPerProcess);
+}
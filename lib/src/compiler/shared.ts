@@ -0,0 +1,209 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {AsyncCompiler, initAsyncCompiler} from './async';
+import {Compiler, initCompiler} from './sync';
+import {
+  HostCompileResult,
+  OptionsWithLegacy,
+  StringOptionsWithLegacy,
+} from './utils';
+import * as utils from '../utils';
+
+/** Options for `acquireSharedAsyncCompiler()` and `acquireSharedCompiler()`. */
+export interface SharedCompilerOptions {
+  /**
+   * The number of milliseconds to keep the shared compiler running after the
+   * last handle to it is released, so that a compilation that comes in shortly
+   * afterwards doesn't have to start a new one.
+   *
+   * Defaults to 1000.
+   */
+  idleTimeout?: number;
+}
+
+/** A handle to the shared asynchronous compiler. */
+export interface SharedAsyncCompiler {
+  compileAsync(
+    path: string,
+    options?: OptionsWithLegacy<'async'>,
+  ): Promise<HostCompileResult>;
+
+  compileStringAsync(
+    source: string,
+    options?: StringOptionsWithLegacy<'async'>,
+  ): Promise<HostCompileResult>;
+
+  /**
+   * Gives up this handle. Once every handle has been released, the shared
+   * compiler shuts down after `SharedCompilerOptions.idleTimeout`.
+   */
+  release(): void;
+}
+
+/** A handle to the shared synchronous compiler. */
+export interface SharedCompiler {
+  compile(path: string, options?: OptionsWithLegacy<'sync'>): HostCompileResult;
+
+  compileString(
+    source: string,
+    options?: StringOptionsWithLegacy<'sync'>,
+  ): HostCompileResult;
+
+  /**
+   * Gives up this handle. Once every handle has been released, the shared
+   * compiler shuts down after `SharedCompilerOptions.idleTimeout`.
+   */
+  release(): void;
+}
+
+/**
+ * A lazily-created instance that's shared between everyone who acquires it,
+ * and disposed once it's been idle for long enough after the last release.
+ */
+class SharedInstance<T> {
+  /** The current instance, if one is running. */
+  private instance?: T;
+
+  /** The number of handles that haven't been released. */
+  private references = 0;
+
+  /** The timer for disposing the instance, if it's idle. */
+  private idleTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly create: () => T,
+    private readonly dispose: (instance: T) => void,
+  ) {}
+
+  /** Returns the instance, creating it if necessary. */
+  acquire(): T {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = undefined;
+    this.references++;
+    this.instance ??= this.create();
+    return this.instance;
+  }
+
+  /**
+   * Gives up a reference to the instance, disposing it after `idleTimeout`
+   * milliseconds if no other references remain.
+   */
+  release(idleTimeout: number): void {
+    this.references--;
+    const instance = this.instance;
+    if (this.references > 0 || instance === undefined) return;
+
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = undefined;
+      this.instance = undefined;
+      this.dispose(instance);
+    }, idleTimeout);
+    // An idle instance shouldn't keep the process running on its own.
+    this.idleTimer.unref();
+  }
+
+  /**
+   * Gives up a reference to `instance` because it's unusable, so that the
+   * next call to `acquire()` creates a new instance rather than returning it.
+   */
+  discard(instance: T, idleTimeout: number): void {
+    if (this.instance === instance) this.instance = undefined;
+    this.release(idleTimeout);
+  }
+}
+
+const sharedAsyncCompiler = new SharedInstance<Promise<AsyncCompiler>>(
+  () => initAsyncCompiler({restartOnCrash: true}),
+  compiler =>
+    void compiler.then(
+      compiler => compiler.dispose(),
+      () => {},
+    ),
+);
+
+const sharedCompiler = new SharedInstance<Compiler>(
+  () => initCompiler({restartOnCrash: true}),
+  compiler => compiler.dispose(),
+);
+
+/**
+ * Returns a handle to an asynchronous compiler that's shared by everyone who
+ * acquires it, starting the compiler if it isn't already running.
+ *
+ * This avoids the cost of starting a new compiler for each compilation when
+ * compilations are spread across independent callers, such as a bundler's
+ * per-file loaders. The compiler keeps running as long as any handle to it
+ * hasn't been released.
+ */
+export async function acquireSharedAsyncCompiler(
+  options?: SharedCompilerOptions,
+): Promise<SharedAsyncCompiler> {
+  const idleTimeout = options?.idleTimeout ?? 1000;
+  const instance = sharedAsyncCompiler.acquire();
+  let compiler: AsyncCompiler;
+  try {
+    compiler = await instance;
+  } catch (error) {
+    sharedAsyncCompiler.discard(instance, idleTimeout);
+    throw error;
+  }
+
+  let released = false;
+  function throwIfReleased(): void {
+    if (released) {
+      throw utils.compilerError('Shared compiler handle has been released');
+    }
+  }
+
+  return {
+    compileAsync: async (path, compileOptions) => {
+      throwIfReleased();
+      return compiler.compileAsync(path, compileOptions);
+    },
+    compileStringAsync: async (source, compileOptions) => {
+      throwIfReleased();
+      return compiler.compileStringAsync(source, compileOptions);
+    },
+    release: () => {
+      if (released) return;
+      released = true;
+      sharedAsyncCompiler.release(idleTimeout);
+    },
+  };
+}
+
+/**
+ * Returns a handle to a synchronous compiler that's shared by everyone who
+ * acquires it, starting the compiler if it isn't already running.
+ *
+ * @see acquireSharedAsyncCompiler
+ */
+export function acquireSharedCompiler(
+  options?: SharedCompilerOptions,
+): SharedCompiler {
+  const compiler = sharedCompiler.acquire();
+  let released = false;
+  function throwIfReleased(): void {
+    if (released) {
+      throw utils.compilerError('Shared compiler handle has been released');
+    }
+  }
+
+  return {
+    compile: (path, compileOptions) => {
+      throwIfReleased();
+      return compiler.compile(path, compileOptions);
+    },
+    compileString: (source, compileOptions) => {
+      throwIfReleased();
+      return compiler.compileString(source, compileOptions);
+    },
+    release: () => {
+      if (released) return;
+      released = true;
+      sharedCompiler.release(options?.idleTimeout ?? 1000);
+    },
+  };
+}
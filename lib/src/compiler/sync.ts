@@ -8,15 +8,29 @@ import {Subject} from 'rxjs';
 import * as sync_child_process from 'sync-child-process';
 
 import {
+  CompilationCollectors,
+  CompilerInitOptions,
+  HostCompileResult,
   OptionsWithLegacy,
+  StringOptionsWithLegacy,
+  attributeDeprecations,
   createDispatcher,
   handleCompileResponse,
   handleLogEvent,
+  hostFunctions,
   newCompilePathRequest,
   newCompileStringRequest,
+  unexpectedExitError,
 } from './utils';
+import {StatsCollector} from '../compile-stats';
 import {compilerCommand} from '../compiler-path';
-import {activeDeprecationOptions} from '../deprecations';
+import {DependencyGraphBuilder} from '../dependency-graph';
+import {TimeoutError} from '../exception';
+import {DeprecationReportBuilder} from '../deprecation-report';
+import {
+  activeDeprecationOptions,
+  activeDeprecationReports,
+} from '../deprecations';
 import {Dispatcher} from '../dispatcher';
 import {FunctionRegistry} from '../function-registry';
 import {ImporterRegistry} from '../importer-registry';
@@ -24,8 +38,6 @@ import {MessageTransformer} from '../message-transformer';
 import {PacketTransformer} from '../packet-transformer';
 import * as utils from '../utils';
 import * as proto from '../vendor/embedded_sass_pb';
-import {CompileResult} from '../vendor/sass/compile';
-import {Options} from '../vendor/sass/options';
 
 /**
  * Flag allowing the constructor passed by `initCompiler` so we can
@@ -34,31 +46,73 @@ import {Options} from '../vendor/sass/options';
  */
 const initFlag = Symbol();
 
+/** Spawns a new embedded compiler process. */
+function spawnCompiler(): sync_child_process.SyncChildProcess {
+  let command = compilerCommand[0];
+  let args = [...compilerCommand.slice(1), '--embedded'];
+  const options: sync_child_process.Options = {
+    // Use the command's cwd so the compiler survives the removal of the
+    // current working directory.
+    // https://github.com/sass/embedded-host-node/pull/261#discussion_r1438712923
+    cwd: path.dirname(compilerCommand[0]),
+    windowsHide: true,
+  };
+
+  // Node forbids launching .bat and .cmd without a shell due to CVE-2024-27980,
+  // and DEP0190 forbids passing an argument list *with* shell: true. To work
+  // around this, we have to manually concatenate the arguments.
+  if (['.bat', '.cmd'].includes(path.extname(command).toLowerCase())) {
+    command = `${command} ${args!.join(' ')}`;
+    args = [];
+    options.shell = true;
+  }
+
+  return new sync_child_process.SyncChildProcess(command, args, options);
+}
+
+/** The value `receiveMessage()` returns when it times out. */
+const timedOut = Symbol();
+
+/**
+ * Like `process.next()`, but returns `null` if the process doesn't emit an
+ * event before `deadline`.
+ *
+ * `SyncChildProcess` can't wait with a timeout, so this reads from the message
+ * port it uses internally the same way `SyncChildProcess.next()` does.
+ */
+function nextBefore(
+  process: sync_child_process.SyncChildProcess,
+  deadline: number,
+): ReturnType<sync_child_process.SyncChildProcess['next']> | null {
+  if (process.stdin.destroyed) return {done: true, value: undefined};
+
+  const message = process['port'].receiveMessage({
+    timeout: Math.max(deadline - Date.now(), 0),
+    timeoutValue: timedOut,
+  });
+  if (message === timedOut) return null;
+  switch (message.type) {
+    case 'stdout':
+    case 'stderr':
+      return {
+        value: {type: message.type, data: Buffer.from(message.data.buffer)},
+      };
+
+    case 'error':
+      process['close']();
+      throw message.error;
+
+    case 'exit':
+      process['close']();
+      return {done: true, value: message};
+  }
+  throw new Error(`Unknown sync-child-process event "${message.type}".`);
+}
+
 /** A synchronous wrapper for the embedded Sass compiler */
 export class Compiler {
   /** The underlying process that's being wrapped. */
-  private readonly process = (() => {
-    let command = compilerCommand[0];
-    let args = [...compilerCommand.slice(1), '--embedded'];
-    const options: sync_child_process.Options = {
-      // Use the command's cwd so the compiler survives the removal of the
-      // current working directory.
-      // https://github.com/sass/embedded-host-node/pull/261#discussion_r1438712923
-      cwd: path.dirname(compilerCommand[0]),
-      windowsHide: true,
-    };
-
-    // Node forbids launching .bat and .cmd without a shell due to CVE-2024-27980,
-    // and DEP0190 forbids passing an argument list *with* shell: true. To work
-    // around this, we have to manually concatenate the arguments.
-    if (['.bat', '.cmd'].includes(path.extname(command).toLowerCase())) {
-      command = `${command} ${args!.join(' ')}`;
-      args = [];
-      options.shell = true;
-    }
-
-    return new sync_child_process.SyncChildProcess(command, args, options);
-  })();
+  private process!: sync_child_process.SyncChildProcess;
 
   /** The next compilation ID. */
   private compilationId = 1;
@@ -67,27 +121,71 @@ export class Compiler {
   private readonly dispatchers: Set<Dispatcher<'sync'>> = new Set();
 
   /** The buffers emitted by the child process's stdout. */
-  private readonly stdout$ = new Subject<Buffer>();
+  private stdout$!: Subject<Buffer>;
 
   /** The buffers emitted by the child process's stderr. */
-  private readonly stderr$ = new Subject<Buffer>();
+  private stderr$!: Subject<Buffer>;
 
   /** Whether the underlying compiler has already exited. */
   private disposed = false;
 
+  /** Whether to start a new process if the current one exits unexpectedly. */
+  private readonly restartOnCrash: boolean;
+
+  /** The error for compilations interrupted by the process exiting. */
+  private exitError?: Error;
+
   /** Reusable message transformer for all compilations.  */
-  private readonly messageTransformer: MessageTransformer;
+  private messageTransformer!: MessageTransformer;
+
+  /**
+   * Starts a new child process and wires up a fresh message transformer to
+   * it.
+   */
+  private spawn(): void {
+    this.process = spawnCompiler();
+    this.disposed = false;
+    this.dispatchers.clear();
+    this.compilationId = 1;
+
+    this.stdout$ = new Subject<Buffer>();
+    this.stderr$ = new Subject<Buffer>();
+    this.stderr$.subscribe(data => process.stderr.write(data));
+    const packetTransformer = new PacketTransformer(this.stdout$, buffer => {
+      this.writeStdin(buffer);
+    });
+    this.messageTransformer = new MessageTransformer(
+      packetTransformer.outboundProtobufs$,
+      packet => packetTransformer.writeInboundProtobuf(packet),
+    );
+  }
 
   /** Writes `buffer` to the child process's stdin. */
   private writeStdin(buffer: Buffer): void {
     this.process.stdin.write(buffer);
   }
 
-  /** Yields the next event from the underlying process. */
-  private yield(): boolean {
-    const result = this.process.next();
+  /**
+   * Yields the next event from the underlying process.
+   *
+   * Returns `false` if the process has exited, or `null` if `deadline` passed
+   * before it emitted an event.
+   */
+  private yield(deadline?: number): boolean | null {
+    const result =
+      deadline === undefined
+        ? this.process.next()
+        : nextBefore(this.process, deadline);
+    if (result === null) return null;
     if (result.done) {
       this.disposed = true;
+      // The process only reports how it exited the first time.
+      if (result.value) {
+        this.exitError = unexpectedExitError(
+          result.value.code,
+          result.value.signal,
+        );
+      }
       return false;
     }
     const event = result.value;
@@ -117,25 +215,64 @@ export class Compiler {
     request: proto.InboundMessage_CompileRequest,
     importers: ImporterRegistry<'sync'>,
     options?: OptionsWithLegacy<'sync'>,
-  ): CompileResult {
+  ): HostCompileResult {
     const optionsKey = Symbol();
     activeDeprecationOptions.set(optionsKey, options ?? {});
     try {
-      const functions = new FunctionRegistry(options?.functions);
+      const functions = new FunctionRegistry(hostFunctions(options));
+      const timeout = options?.timeout;
+      const deadline = timeout === undefined ? undefined : Date.now() + timeout;
+
+      // Synchronous importers and functions can't be interrupted, so the best
+      // we can do is check whether they ran past the deadline once they return.
+      // Their requests are still pending at that point, so the error names
+      // them.
+      function checkDeadline<T>(response: T): T {
+        if (deadline !== undefined && Date.now() >= deadline) {
+          throw new TimeoutError(timeout!, dispatcher.pendingRequests);
+        }
+        return response;
+      }
 
+      const dependencyGraph = options?.collectDependencyGraph
+        ? new DependencyGraphBuilder()
+        : undefined;
+      const stats = options?.collectStats
+        ? new StatsCollector(importers)
+        : undefined;
+      const collectors: CompilationCollectors = {
+        inputSourceMaps: importers.inputSourceMaps,
+        dependencyGraph,
+        stats,
+        diagnostics: options?.collectDiagnostics ? [] : undefined,
+        deprecationReport: options?.deprecationReport
+          ? new DeprecationReportBuilder()
+          : undefined,
+      };
+      if (collectors.deprecationReport) {
+        activeDeprecationReports.set(optionsKey, collectors.deprecationReport);
+      }
+      const handlers = attributeDeprecations<'sync'>(optionsKey, {
+        handleImportRequest: request =>
+          checkDeadline(importers.import(request)),
+        handleFileImportRequest: request =>
+          checkDeadline(importers.fileImport(request)),
+        handleCanonicalizeRequest: request =>
+          checkDeadline(importers.canonicalize(request)),
+        handleFunctionCallRequest: request =>
+          checkDeadline(functions.call(request)),
+      });
       const dispatcher = createDispatcher<'sync'>(
         this.compilationId++,
         this.messageTransformer,
-        {
-          handleImportRequest: request => importers.import(request),
-          handleFileImportRequest: request => importers.fileImport(request),
-          handleCanonicalizeRequest: request => importers.canonicalize(request),
-          handleFunctionCallRequest: request => functions.call(request),
-        },
+        stats ? stats.instrument(handlers) : handlers,
+        dependencyGraph,
       );
       this.dispatchers.add(dispatcher);
 
-      dispatcher.logEvents$.subscribe(event => handleLogEvent(options, event));
+      dispatcher.logEvents$.subscribe(event =>
+        handleLogEvent(options, event, collectors),
+      );
 
       let error: unknown;
       let response: proto.OutboundMessage_CompileResponse | undefined;
@@ -152,19 +289,51 @@ export class Compiler {
         }
       });
 
+      const compilerProcess = this.process;
       for (;;) {
-        if (!this.yield()) {
-          throw utils.compilerError('Embedded compiler exited unexpectedly');
+        // A nested compilation may have already restarted the compiler, in
+        // which case this compilation's process is gone.
+        if (this.process !== compilerProcess) throw this.exitError;
+        const yielded = this.yield(deadline);
+        if (yielded === false) {
+          if (this.restartOnCrash) this.spawn();
+          throw this.exitError;
         }
 
-        if (error) throw error;
-        if (response) return handleCompileResponse(response);
+        if (error) {
+          // The compiler is still waiting on a timed-out compilation, and the
+          // only way to stop it is to restart it.
+          if (error instanceof TimeoutError) this.restart(error);
+          throw error;
+        }
+        if (response) {
+          return handleCompileResponse(response, options, collectors);
+        }
+        if (
+          yielded === null ||
+          (deadline !== undefined && Date.now() >= deadline)
+        ) {
+          const timeoutError = new TimeoutError(timeout!, []);
+          this.restart(timeoutError);
+          throw timeoutError;
+        }
       }
     } finally {
       activeDeprecationOptions.delete(optionsKey);
+      activeDeprecationReports.delete(optionsKey);
     }
   }
 
+  /**
+   * Kills the current process and replaces it with a new one. Compilations
+   * running in the old process fail with `reason`.
+   */
+  private restart(reason: Error): void {
+    this.process.kill();
+    this.spawn();
+    this.exitError = reason;
+  }
+
   /** Guards against using a disposed compiler. */
   private throwIfDisposed(): void {
     if (this.disposed) {
@@ -173,24 +342,21 @@ export class Compiler {
   }
 
   /** Initialize resources shared across compilations. */
-  constructor(flag: symbol | undefined) {
+  constructor(flag: symbol | undefined, options?: CompilerInitOptions) {
     if (flag !== initFlag) {
       throw utils.compilerError(
         'Compiler can not be directly constructed. ' +
           'Please use `sass.initCompiler()` instead',
       );
     }
-    this.stderr$.subscribe(data => process.stderr.write(data));
-    const packetTransformer = new PacketTransformer(this.stdout$, buffer => {
-      this.writeStdin(buffer);
-    });
-    this.messageTransformer = new MessageTransformer(
-      packetTransformer.outboundProtobufs$,
-      packet => packetTransformer.writeInboundProtobuf(packet),
-    );
+    this.restartOnCrash = !!options?.restartOnCrash;
+    this.spawn();
   }
 
-  compile(path: string, options?: Options<'sync'>): CompileResult {
+  compile(
+    path: string,
+    options?: OptionsWithLegacy<'sync'>,
+  ): HostCompileResult {
     this.throwIfDisposed();
     const importers = new ImporterRegistry(options);
     return this.compileRequestSync(
@@ -200,7 +366,10 @@ export class Compiler {
     );
   }
 
-  compileString(source: string, options?: Options<'sync'>): CompileResult {
+  compileString(
+    source: string,
+    options?: StringOptionsWithLegacy<'sync'>,
+  ): HostCompileResult {
     this.throwIfDisposed();
     const importers = new ImporterRegistry(options);
     return this.compileRequestSync(
@@ -216,6 +385,6 @@ export class Compiler {
   }
 }
 
-export function initCompiler(): Compiler {
-  return new Compiler(initFlag);
+export function initCompiler(options?: CompilerInitOptions): Compiler {
+  return new Compiler(initFlag, options);
 }
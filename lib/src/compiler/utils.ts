@@ -6,11 +6,27 @@ import * as p from 'path';
 import * as supportsColor from 'supports-color';
 import {create} from '@bufbuild/protobuf';
 
-import {Deprecation, deprecations, getDeprecationIds} from '../deprecations';
+import {CompileStats, StatsCollector} from '../compile-stats';
+import {DependencyGraph, DependencyGraphBuilder} from '../dependency-graph';
+import {
+  DeprecationReport,
+  DeprecationReportBuilder,
+} from '../deprecation-report';
+import {
+  Deprecation,
+  deprecations,
+  getDeprecationIds,
+  runForCompilation,
+} from '../deprecations';
+import {Diagnostic} from '../diagnostic';
 import {deprotofySourceSpan} from '../deprotofy-span';
 import {Dispatcher, DispatcherHandlers} from '../dispatcher';
 import {Exception} from '../exception';
+import {HostModule, hostModuleFunctions} from '../host-modules';
+import {ImporterCache} from '../importer-cache';
+import {ImporterMiddleware} from '../importer-middleware';
 import {ImporterRegistry} from '../importer-registry';
+import {InputSourceMaps} from '../input-source-maps';
 import {
   legacyImporterProtocol,
   removeLegacyImporter,
@@ -18,64 +34,332 @@ import {
 } from '../legacy/utils';
 import {Logger} from '../logger';
 import {MessageTransformer} from '../message-transformer';
+import {
+  SourceMapOutputOptions,
+  prepareSourceMapOutput,
+} from '../source-map-output';
 import * as utils from '../utils';
 import * as proto from '../vendor/embedded_sass_pb';
-import {SourceSpan} from '../vendor/sass';
+import {CustomFunction, SourceSpan} from '../vendor/sass';
 import {CompileResult} from '../vendor/sass/compile';
 import {Options, StringOptions} from '../vendor/sass/options';
 
 /**
- * Allow the legacy API to pass in an option signaling to the modern API that
- * it's being run in legacy mode.
+ * Options supported by this package's compile functions in addition to the
+ * ones defined by the JS API.
+ */
+export interface HostOptions<sync extends 'sync' | 'async'> {
+  /**
+   * A signal that aborts the compilation. Once it fires, the compilation's
+   * promise rejects with the signal's reason and no more importers, functions,
+   * or loggers are called for it.
+   *
+   * This is only supported for asynchronous compilations.
+   */
+  signal?: sync extends 'async' ? AbortSignal : never;
+
+  /**
+   * The number of milliseconds the compilation may run before it fails with a
+   * `TimeoutError`.
+   *
+   * If the compiler itself is still working on the compilation when it times
+   * out, the compiler process is restarted, which also fails any other
+   * compilations running in it.
+   *
+   * Synchronous importers and functions can't be interrupted, so a synchronous
+   * compilation that's stuck in one of them only times out once it returns.
+   */
+  timeout?: number;
+
+  /**
+   * Whether to record which stylesheets loaded which others and return them as
+   * `HostCompileResult.dependencyGraph`.
+   *
+   * Defaults to `false`.
+   */
+  collectDependencyGraph?: boolean;
+
+  /**
+   * Whether to measure where the compilation's time went and return the
+   * measurements as `HostCompileResult.stats`.
+   *
+   * Defaults to `false`.
+   */
+  collectStats?: boolean;
+
+  /**
+   * A cache for the results of custom importers' `canonicalize()`, `load()`,
+   * and `findFileUrl()` calls. Passing the same cache to several compilations
+   * lets them reuse each other's results instead of calling the importers
+   * again.
+   *
+   * Results are cached until they're removed with `ImporterCache.invalidate()`
+   * or `ImporterCache.clear()`, so importers whose results can change should
+   * invalidate them when they do.
+   *
+   * This can't be used with `importerMiddleware`.
+   */
+  importerCache?: ImporterCache;
+
+  /**
+   * Functions that wrap every call to the host's importers, in order from
+   * outermost to innermost. See `ImporterMiddleware` for details.
+   *
+   * This can't be used with `importerCache`.
+   */
+  importerMiddleware?: ImporterMiddleware<sync>[];
+
+  /**
+   * Whether the one-shot `compile()`, `compileString()`, `compileAsync()`, and
+   * `compileStringAsync()` functions should run on a compiler that's shared
+   * between calls rather than starting a new one for each call. The shared
+   * compiler shuts down once it's been idle for a second.
+   *
+   * This has no effect on compilers created with `initCompiler()` or
+   * `initAsyncCompiler()`.
+   *
+   * Defaults to `false`.
+   */
+  reuseCompiler?: boolean;
+
+  /**
+   * How the compilation's source map will be written out. If this is set, a
+   * source map is generated even if `Options.sourceMap` is `false`, and the
+   * result includes `HostCompileResult.cssWithSourceMapComment` and
+   * `HostCompileResult.serializedSourceMap`.
+   */
+  sourceMapOutput?: SourceMapOutputOptions;
+
+  /**
+   * Whether to collect the compilation's warnings and debug messages and
+   * return them as `HostCompileResult.diagnostics`, or as
+   * `Exception.diagnostics` if the compilation fails.
+   *
+   * If this is `true`, messages aren't printed to the console when there's no
+   * `Options.logger`. A logger that's passed is still called.
+   *
+   * Defaults to `false`.
+   */
+  collectDiagnostics?: boolean;
+
+  /**
+   * Whether to count the deprecations that occur in the compilation and return
+   * a summary of them as `HostCompileResult.deprecationReport`, instead of
+   * emitting deprecation warnings. This includes every occurrence of each
+   * deprecation, as well as host-side deprecations caused by the JavaScript
+   * API in the compilation's own importers and functions.
+   *
+   * Defaults to `false`.
+   */
+  deprecationReport?: boolean;
+
+  /**
+   * Sass modules whose members are defined by the host, indexed by the
+   * absolute URLs that stylesheets load them with. For example, a module
+   * passed as `'js:tokens'` can be loaded with `@use 'js:tokens'`, after which
+   * its members are available as `tokens.get()` or `tokens.$primary`.
+   *
+   * Each module's functions are implemented as global functions with generated
+   * names, which are called by the members of the module.
+   */
+  modules?: Record<string, HostModule<sync>>;
+}
+
+/**
+ * The JS API's compile result along with the extra information this package
+ * returns when it's requested through `HostOptions`.
+ */
+export interface HostCompileResult extends CompileResult {
+  /**
+   * The stylesheets the compilation loaded and how they loaded one another.
+   *
+   * This is only set if `HostOptions.collectDependencyGraph` is `true`.
+   */
+  dependencyGraph?: DependencyGraph;
+
+  /**
+   * Measurements of where the compilation's time went.
+   *
+   * This is only set if `HostOptions.collectStats` is `true`.
+   */
+  stats?: CompileStats;
+
+  /**
+   * The CSS with a `sourceMappingURL` comment that refers to the source map.
+   *
+   * This is only set if `HostOptions.sourceMapOutput` is set.
+   */
+  cssWithSourceMapComment?: string;
+
+  /**
+   * The source map as JSON, adjusted for where it'll be written according to
+   * `HostOptions.sourceMapOutput`.
+   *
+   * This is only set if `HostOptions.sourceMapOutput` is set.
+   */
+  serializedSourceMap?: string;
+
+  /**
+   * The warnings and debug messages the compilation emitted.
+   *
+   * This is only set if `HostOptions.collectDiagnostics` is `true`.
+   */
+  diagnostics?: Diagnostic[];
+
+  /**
+   * A summary of the deprecations that occurred in the compilation.
+   *
+   * This is only set if `HostOptions.deprecationReport` is `true`.
+   */
+  deprecationReport?: DeprecationReport;
+}
+
+/** The information a compilation collects alongside its result. */
+export interface CompilationCollectors {
+  /** The source maps for the stylesheets that importers generated. */
+  inputSourceMaps: InputSourceMaps;
+
+  /** The graph of which stylesheets loaded which others, if requested. */
+  dependencyGraph?: DependencyGraphBuilder;
+
+  /** The measurements of where the time went, if requested. */
+  stats?: StatsCollector;
+
+  /** The warnings and debug messages emitted so far, if requested. */
+  diagnostics?: Diagnostic[];
+
+  /** The deprecations that have occurred so far, if requested. */
+  deprecationReport?: DeprecationReportBuilder;
+}
+
+/**
+ * The JS API's options along with this package's `HostOptions`.
  *
- * This is not intended for API users to pass in, and may be broken without
- * warning in the future.
+ * This also allows the legacy API to pass in an option signaling to the modern
+ * API that it's being run in legacy mode. That option is not intended for API
+ * users to pass in, and may be broken without warning in the future.
  */
-export type OptionsWithLegacy<sync extends 'sync' | 'async'> = Options<sync> & {
-  legacy?: boolean;
-};
+export type OptionsWithLegacy<sync extends 'sync' | 'async'> = Options<sync> &
+  HostOptions<sync> & {
+    legacy?: boolean;
+  };
 
 /**
- * Allow the legacy API to pass in an option signaling to the modern API that
- * it's being run in legacy mode.
+ * The JS API's options along with this package's `HostOptions`.
  *
- * This is not intended for API users to pass in, and may be broken without
- * warning in the future.
+ * This also allows the legacy API to pass in an option signaling to the modern
+ * API that it's being run in legacy mode. That option is not intended for API
+ * users to pass in, and may be broken without warning in the future.
  */
 export type StringOptionsWithLegacy<sync extends 'sync' | 'async'> =
-  StringOptions<sync> & {legacy?: boolean};
+  StringOptions<sync> & HostOptions<sync> & {legacy?: boolean};
+
+/** Options for `initCompiler()` and `initAsyncCompiler()`. */
+export interface CompilerInitOptions {
+  /**
+   * Whether to start a new embedded compiler process if the current one exits
+   * unexpectedly. Compilations that were running when it exited fail, but the
+   * compiler keeps accepting new compilations.
+   *
+   * Defaults to `false`.
+   */
+  restartOnCrash?: boolean;
+}
+
+/**
+ * Returns the error for compilations that were running when the embedded
+ * compiler process exited with `code` or `signal` without being disposed.
+ */
+export function unexpectedExitError(
+  code: number | null | undefined,
+  signal: NodeJS.Signals | null | undefined,
+): Error {
+  let message = 'Embedded compiler exited unexpectedly';
+  if (signal) {
+    message += ` with signal ${signal}`;
+  } else if (code !== null && code !== undefined) {
+    message += ` with code ${code}`;
+  }
+  return utils.compilerError(message);
+}
+
+/**
+ * Returns a copy of `handlers` that attributes the host-side deprecations each
+ * call raises to the compilation with `optionsKey`.
+ */
+export function attributeDeprecations<sync extends 'sync' | 'async'>(
+  optionsKey: symbol,
+  handlers: DispatcherHandlers<sync>,
+): DispatcherHandlers<sync> {
+  return {
+    handleImportRequest: request =>
+      runForCompilation(optionsKey, () =>
+        handlers.handleImportRequest(request),
+      ),
+    handleFileImportRequest: request =>
+      runForCompilation(optionsKey, () =>
+        handlers.handleFileImportRequest(request),
+      ),
+    handleCanonicalizeRequest: request =>
+      runForCompilation(optionsKey, () =>
+        handlers.handleCanonicalizeRequest(request),
+      ),
+    handleFunctionCallRequest: request =>
+      runForCompilation(optionsKey, () =>
+        handlers.handleFunctionCallRequest(request),
+      ),
+  };
+}
 
 /**
  * Creates a dispatcher that dispatches messages from the given `stdout` stream.
+ *
+ * If `dependencyGraph` is passed, the dispatcher records the importer results
+ * it sends in it.
  */
 export function createDispatcher<sync extends 'sync' | 'async'>(
   compilationId: number,
   messageTransformer: MessageTransformer,
   handlers: DispatcherHandlers<sync>,
+  dependencyGraph?: DependencyGraphBuilder,
 ): Dispatcher<sync> {
   return new Dispatcher<sync>(
     compilationId,
     messageTransformer.outboundMessages$,
     message => messageTransformer.writeInboundMessage(message),
     handlers,
+    dependencyGraph,
   );
 }
 
+/**
+ * Returns the host functions defined by `options`, including the ones that
+ * implement `HostOptions.modules`.
+ */
+export function hostFunctions<sync extends 'sync' | 'async'>(
+  options?: OptionsWithLegacy<sync>,
+): Record<string, CustomFunction<sync>> {
+  if (!options?.modules) return options?.functions ?? {};
+  return {...options.functions, ...hostModuleFunctions(options.modules)};
+}
+
 // Creates a compilation request for the given `options` without adding any
 // input-specific options.
 function newCompileRequest(
   importers: ImporterRegistry<'sync' | 'async'>,
-  options?: Options<'sync' | 'async'>,
+  options?: OptionsWithLegacy<'sync' | 'async'>,
 ): proto.InboundMessage_CompileRequest {
   const request = create(proto.InboundMessage_CompileRequestSchema, {
     importers: importers.importers,
-    globalFunctions: Object.keys(options?.functions ?? {}),
-    sourceMap: !!options?.sourceMap,
+    globalFunctions: Object.keys(hostFunctions(options)),
+    sourceMap: !!(options?.sourceMap || options?.sourceMapOutput),
     sourceMapIncludeSources: !!options?.sourceMapIncludeSources,
     alertColor: options?.alertColor ?? !!supportsColor.stdout,
     alertAscii: !!options?.alertAscii,
     quietDeps: !!options?.quietDeps,
-    verbose: !!options?.verbose,
+    // The compiler omits repeated deprecation warnings unless it's verbose, but
+    // a deprecation report needs to count all of them.
+    verbose: !!(options?.verbose || options?.deprecationReport),
     charset: !!(options?.charset ?? true),
     silent: options?.logger === Logger.silent,
     fatalDeprecation: getDeprecationIds(options?.fatalDeprecations ?? []),
@@ -103,7 +387,7 @@ function newCompileRequest(
 export function newCompilePathRequest(
   path: string,
   importers: ImporterRegistry<'sync' | 'async'>,
-  options?: Options<'sync' | 'async'>,
+  options?: OptionsWithLegacy<'sync' | 'async'>,
 ): proto.InboundMessage_CompileRequest {
   const absPath = p.resolve(path);
   const request = newCompileRequest(importers, options);
@@ -115,7 +399,7 @@ export function newCompilePathRequest(
 export function newCompileStringRequest(
   source: string,
   importers: ImporterRegistry<'sync' | 'async'>,
-  options?: StringOptions<'sync' | 'async'>,
+  options?: StringOptionsWithLegacy<'sync' | 'async'>,
 ): proto.InboundMessage_CompileRequest {
   const input = create(proto.InboundMessage_CompileRequest_StringInputSchema, {
     source,
@@ -153,10 +437,14 @@ function validDeprecationId(
   return !!id && id in deprecations;
 }
 
-/** Handles a log event according to `options`. */
+/**
+ * Handles a log event according to `options`, recording it in `collectors` if
+ * they're passed.
+ */
 export function handleLogEvent(
   options: OptionsWithLegacy<'sync' | 'async'> | undefined,
   event: proto.OutboundMessage_LogEvent,
+  collectors?: CompilationCollectors,
 ): void {
   let span = event.span ? deprotofySourceSpan(event.span) : null;
   if (span && options?.legacy) span = removeLegacyImporterFromSpan(span);
@@ -167,13 +455,31 @@ export function handleLogEvent(
   const deprecationType = validDeprecationId(event.deprecationType)
     ? deprecations[event.deprecationType]
     : null;
+  let stack = event.stackTrace;
+  if (stack && options?.legacy) stack = removeLegacyImporter(stack);
+
+  if (deprecationType && collectors?.deprecationReport) {
+    collectors.deprecationReport.add(deprecationType, span ?? undefined);
+    return;
+  }
+
+  const diagnostics = collectors?.diagnostics;
+  if (diagnostics) {
+    diagnostics.push({
+      severity: event.type === proto.LogEventType.DEBUG ? 'debug' : 'warning',
+      message,
+      ...(span ? {span} : {}),
+      ...(stack ? {stack} : {}),
+      ...(deprecationType ? {deprecationType} : {}),
+    });
+  }
 
   if (event.type === proto.LogEventType.DEBUG) {
     if (options?.logger?.debug) {
       options.logger.debug(message, {
         span: span!,
       });
-    } else {
+    } else if (!diagnostics) {
       console.error(formatted);
     }
   } else {
@@ -191,39 +497,63 @@ export function handleLogEvent(
         ? {deprecation: true, deprecationType: deprecationType}
         : {deprecation: false};
       if (span) params.span = span;
-
-      const stack = event.stackTrace;
-      if (stack) {
-        params.stack = options?.legacy ? removeLegacyImporter(stack) : stack;
-      }
+      if (stack) params.stack = stack;
 
       options.logger.warn(message, params);
-    } else {
+    } else if (!diagnostics) {
       console.error(formatted);
     }
   }
 }
 
 /**
- * Converts a `CompileResponse` into a `CompileResult`.
+ * Converts a `CompileResponse` into a `HostCompileResult`, including the
+ * information recorded in `collectors`. The result's source map is prepared
+ * according to `options.sourceMapOutput`.
  *
  * Throws a `SassException` if the compilation failed.
  */
 export function handleCompileResponse(
   response: proto.OutboundMessage_CompileResponse,
-): CompileResult {
+  options: HostOptions<'sync' | 'async'> | undefined,
+  collectors: CompilationCollectors,
+): HostCompileResult {
   if (response.result.case === 'success') {
     const success = response.result.value;
-    const result: CompileResult = {
+    const result: HostCompileResult = {
       css: success.css,
       loadedUrls: response.loadedUrls.map(url => new URL(url)),
     };
 
     const sourceMap = success.sourceMap;
-    if (sourceMap) result.sourceMap = JSON.parse(sourceMap);
+    if (sourceMap) {
+      result.sourceMap = collectors.inputSourceMaps.compose(
+        JSON.parse(sourceMap),
+      );
+      if (options?.sourceMapOutput) {
+        Object.assign(
+          result,
+          prepareSourceMapOutput(
+            result.css,
+            result.sourceMap,
+            options.sourceMapOutput,
+          ),
+        );
+      }
+    }
+    if (collectors.dependencyGraph) {
+      result.dependencyGraph = collectors.dependencyGraph.build(
+        result.loadedUrls,
+      );
+    }
+    if (collectors.stats) result.stats = collectors.stats.build(result.css);
+    if (collectors.diagnostics) result.diagnostics = collectors.diagnostics;
+    if (collectors.deprecationReport) {
+      result.deprecationReport = collectors.deprecationReport.build();
+    }
     return result;
   } else if (response.result.case === 'failure') {
-    throw new Exception(response.result.value);
+    throw new Exception(response.result.value, collectors.diagnostics);
   } else {
     throw utils.compilerError('Compiler sent empty CompileResponse');
   }
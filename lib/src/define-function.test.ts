@@ -0,0 +1,139 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {compileString, compileStringAsync} from './compile';
+import {defineFunction} from './define-function';
+import {SassNumber} from './value/number';
+import {SassString} from './value/string';
+
+describe('defineFunction', () => {
+  it('passes checked arguments by name', () => {
+    const functions = defineFunction('scale($size, $factor: 2)', {
+      params: {size: 'number', factor: 'number'},
+      handler: ({size, factor}) =>
+        new SassNumber(size.value * factor.value, size.numeratorUnits.first()),
+    });
+    expect(
+      compileString('a {b: scale(3px); c: scale($factor: 3, $size: 2px)}', {
+        functions,
+      }).css,
+    ).toBe('a {\n  b: 6px;\n  c: 6px;\n}');
+  });
+
+  it('passes null for optional arguments', () => {
+    const functions = defineFunction('describe($value: null)', {
+      params: {value: 'string?'},
+      handler: ({value}) => new SassString(value ? value.text : 'none'),
+    });
+    expect(
+      compileString('a {b: describe(); c: describe(x)}', {functions}).css,
+    ).toBe('a {\n  b: "none";\n  c: "x";\n}');
+  });
+
+  it('passes positional and keyword rest arguments', () => {
+    const functions = defineFunction('join-all($separator, $parts...)', {
+      params: {separator: 'string', parts: 'string...'},
+      handler: ({separator, parts}) =>
+        new SassString(
+          [
+            ...parts.positional.map(part => part.text),
+            ...Object.entries(parts.keywords).map(
+              ([name, part]) => `${name}=${part.text}`,
+            ),
+          ].join(separator.text),
+          {quotes: false},
+        ),
+    });
+    expect(
+      compileString('a {b: join-all("-", x, y, $z: w)}', {functions}).css,
+    ).toBe('a {\n  b: x-y-z=w;\n}');
+  });
+
+  it('converts list arguments', () => {
+    const functions = defineFunction('count($list)', {
+      params: {list: 'list'},
+      handler: ({list}) => new SassNumber(list.size),
+    });
+    expect(
+      compileString('a {b: count(1 2 3); c: count(x)}', {functions}).css,
+    ).toBe('a {\n  b: 3;\n  c: 1;\n}');
+  });
+
+  it('supports async handlers', async () => {
+    const functions = defineFunction('double($n)', {
+      params: {n: 'number'},
+      handler: async ({n}) => new SassNumber(n.value * 2),
+    });
+    const result = await compileStringAsync('a {b: double(2)}', {functions});
+    expect(result.css).toBe('a {\n  b: 4;\n}');
+  });
+
+  describe('throws an error', () => {
+    it('for an argument of the wrong type', () => {
+      const functions = defineFunction('double($n)', {
+        params: {n: 'number'},
+        handler: ({n}) => new SassNumber(n.value * 2),
+      });
+      expect(() => compileString('a {b: double(c)}', {functions})).toThrow(
+        '$n: c is not a number',
+      );
+    });
+
+    it('for a keyword rest argument of the wrong type', () => {
+      const functions = defineFunction('sum($numbers...)', {
+        params: {numbers: 'number...'},
+        handler: () => new SassNumber(0),
+      });
+      expect(() => compileString('a {b: sum(1, $x: y)}', {functions})).toThrow(
+        '$x: y is not a number',
+      );
+    });
+
+    it('for a parameter without a type', () => {
+      expect(() =>
+        defineFunction('foo($a, $b)', {
+          params: {a: 'number'},
+          handler: ({a}) => a,
+        }),
+      ).toThrow('defineFunction: "foo($a, $b)" has no type for $b');
+    });
+
+    it('for a type without a parameter', () => {
+      expect(() =>
+        defineFunction('foo($a)', {
+          params: {a: 'number', b: 'number'},
+          handler: ({a}) => a,
+        }),
+      ).toThrow('defineFunction: "foo($a)" has no parameter $b');
+    });
+
+    it('for a rest parameter without a rest type', () => {
+      expect(() =>
+        defineFunction('foo($a...)', {
+          params: {a: 'number'},
+          handler: ({a}) => a,
+        }),
+      ).toThrow('is a rest parameter, so its type must end in "..."');
+    });
+
+    it('for an invalid signature', () => {
+      expect(() =>
+        defineFunction('foo($a..., $b)', {
+          params: {a: 'value...', b: 'value'},
+          handler: ({b}) => b,
+        }),
+      ).toThrow('defineFunction: "foo($a..., $b)" has an invalid parameter');
+    });
+  });
+
+  it('parses default values containing commas', () => {
+    const functions = defineFunction('first($list: (a, b), $sep: ",")', {
+      params: {list: 'list', sep: 'string'},
+      handler: ({list}) => list.first()!,
+    });
+    expect(compileString('a {b: first()}', {functions}).css).toBe(
+      'a {\n  b: a;\n}',
+    );
+  });
+});
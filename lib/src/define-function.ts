@@ -0,0 +1,320 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {List} from 'immutable';
+
+import * as types from './vendor/sass';
+import {PromiseOr} from './utils';
+import {Value} from './value';
+import {SassArgumentList} from './value/argument-list';
+import {SassBoolean} from './value/boolean';
+import {SassCalculation} from './value/calculations';
+import {SassColor} from './value/color';
+import {SassFunction} from './value/function';
+import {SassMap} from './value/map';
+import {SassMixin} from './value/mixin';
+import {SassNumber} from './value/number';
+import {SassString} from './value/string';
+
+/** The types that `defineFunction()` can check a parameter against. */
+export type ParameterType =
+  | 'value'
+  | 'boolean'
+  | 'calculation'
+  | 'color'
+  | 'function'
+  | 'list'
+  | 'map'
+  | 'mixin'
+  | 'number'
+  | 'string';
+
+/** The valid `ParameterType`s. */
+const parameterTypes = new Set<string>([
+  'value',
+  'boolean',
+  'calculation',
+  'color',
+  'function',
+  'list',
+  'map',
+  'mixin',
+  'number',
+  'string',
+]);
+
+/**
+ * The type of a single parameter for `defineFunction()`.
+ *
+ * A `?` suffix allows the argument to be `null`, in which case the handler
+ * receives JS `null`. A `...` suffix marks a rest parameter, and must be used
+ * exactly for the parameter declared as `$name...` in the signature.
+ */
+export type ParameterSpec =
+  ParameterType | `${ParameterType}?` | `${ParameterType}...`;
+
+/** The arguments passed to a rest parameter, each of type `T`. */
+export interface RestArguments<T> {
+  /** The arguments that were passed positionally. */
+  positional: T[];
+
+  /** The arguments that were passed by name, indexed by name without `$`. */
+  keywords: Record<string, T>;
+}
+
+/** The JS type of an argument that has been checked to be `type`. */
+type ArgumentType<T extends ParameterType> = T extends 'boolean'
+  ? SassBoolean
+  : T extends 'calculation'
+    ? SassCalculation
+    : T extends 'color'
+      ? SassColor
+      : T extends 'function'
+        ? SassFunction
+        : T extends 'list'
+          ? List<Value>
+          : T extends 'map'
+            ? SassMap
+            : T extends 'mixin'
+              ? SassMixin
+              : T extends 'number'
+                ? SassNumber
+                : T extends 'string'
+                  ? SassString
+                  : Value;
+
+/** The JS type of an argument passed to a parameter of type `spec`. */
+type ArgumentFor<S extends ParameterSpec> =
+  S extends `${infer T extends ParameterType}...`
+    ? RestArguments<ArgumentType<T>>
+    : S extends `${infer T extends ParameterType}?`
+      ? ArgumentType<T> | null
+      : S extends ParameterType
+        ? ArgumentType<S>
+        : never;
+
+/** The arguments passed to a function with the parameters `params`. */
+export type ArgumentsFor<P extends Record<string, ParameterSpec>> = {
+  [K in keyof P]: ArgumentFor<P[K]>;
+};
+
+/** The definition of a custom function for `defineFunction()`. */
+export interface FunctionDefinition<
+  P extends Record<string, ParameterSpec>,
+  R extends Value | Promise<Value>,
+> {
+  /**
+   * The type of each parameter in the signature, indexed by name without `$`.
+   * Every parameter in the signature must be listed here.
+   */
+  params: P;
+
+  /** The function's implementation, called with its checked arguments. */
+  handler: (args: ArgumentsFor<P>) => R;
+}
+
+/** A parameter parsed from a function signature. */
+interface Parameter {
+  /** The parameter's name, without `$`. */
+  name: string;
+
+  /** Whether this is a rest parameter. */
+  rest: boolean;
+}
+
+/**
+ * Returns an entry for `options.functions` that calls `definition.handler` with
+ * arguments that have been checked against `definition.params`.
+ *
+ * For example:
+ *
+ * ```js
+ * const result = sass.compileString(source, {
+ *   functions: {
+ *     ...defineFunction('scale($size, $factor: 2, $units...)', {
+ *       params: {size: 'number', factor: 'number?', units: 'string...'},
+ *       handler: ({size, factor, units}) => ...,
+ *     }),
+ *   },
+ * });
+ * ```
+ *
+ * An argument of the wrong type causes the function to throw an error with the
+ * same message as Sass's built-in functions, such as `$size: red is not a
+ * number.` Arguments declared as `list` are converted to lists the same way
+ * `Value.asList` does.
+ */
+export function defineFunction<
+  P extends Record<string, ParameterSpec>,
+  R extends Value | Promise<Value>,
+>(
+  signature: string,
+  definition: FunctionDefinition<P, R>,
+): Record<
+  string,
+  types.CustomFunction<R extends Promise<Value> ? 'async' : 'sync'>
+> {
+  const parameters = parseParameters(signature);
+  const keys = new Map<string, string>();
+  for (const key of Object.keys(definition.params)) {
+    keys.set(normalize(key), key);
+  }
+
+  const specs = parameters.map(parameter => {
+    const key = keys.get(normalize(parameter.name));
+    if (key === undefined) {
+      throw new Error(
+        `defineFunction: "${signature}" has no type for $${parameter.name}`,
+      );
+    }
+    keys.delete(normalize(parameter.name));
+
+    const spec = definition.params[key];
+    if (!parameterTypes.has(spec.replace(/(\?|\.\.\.)$/, ''))) {
+      throw new Error(
+        `defineFunction: $${parameter.name} has unknown type "${spec}"`,
+      );
+    }
+    if (spec.endsWith('...') !== parameter.rest) {
+      throw new Error(
+        `defineFunction: $${parameter.name} in "${signature}" ` +
+          (parameter.rest
+            ? 'is a rest parameter, so its type must end in "..."'
+            : 'isn\'t a rest parameter, so its type can\'t end in "..."'),
+      );
+    }
+    return {key, name: parameter.name, spec};
+  });
+  if (keys.size > 0) {
+    const [key] = keys.values();
+    throw new Error(`defineFunction: "${signature}" has no parameter $${key}`);
+  }
+
+  return {
+    [signature]: (args: types.Value[]) => {
+      const checked: Record<string, unknown> = {};
+      specs.forEach(({key, name, spec}, i) => {
+        const arg = args[i] as Value;
+        if (!spec.endsWith('...')) {
+          checked[key] = check(arg, spec, name);
+          return;
+        }
+
+        const type = spec.slice(0, -3) as ParameterSpec;
+        const list = arg as SassArgumentList;
+        checked[key] = {
+          positional: list.asList
+            .map(value => check(value, type, name))
+            .toArray(),
+          keywords: Object.fromEntries(
+            [...list.keywords].map(([keyword, value]) => [
+              keyword,
+              check(value, type, keyword),
+            ]),
+          ),
+        };
+      });
+      return definition.handler(checked as ArgumentsFor<P>) as PromiseOr<
+        types.Value,
+        R extends Promise<Value> ? 'async' : 'sync'
+      >;
+    },
+  };
+}
+
+/** Returns the parameters declared by `signature`. */
+function parseParameters(signature: string): Parameter[] {
+  const openParen = signature.indexOf('(');
+  if (openParen === -1 || !signature.trimEnd().endsWith(')')) {
+    throw new Error(`defineFunction: "${signature}" is missing "(" or ")"`);
+  }
+
+  const list = signature.substring(openParen + 1, signature.lastIndexOf(')'));
+  const parameters: Parameter[] = [];
+  for (const declaration of splitTopLevel(list)) {
+    if (declaration.trim() === '') continue;
+    const match = declaration.match(
+      /^\s*\$([^\s:.]+)\s*(?:(\.\.\.)\s*|:.*)?$/s,
+    );
+    if (!match || parameters[parameters.length - 1]?.rest) {
+      throw new Error(
+        `defineFunction: "${signature}" has an invalid parameter ` +
+          `"${declaration.trim()}"`,
+      );
+    }
+    parameters.push({name: match[1], rest: match[2] !== undefined});
+  }
+  return parameters;
+}
+
+/**
+ * Splits `list` on the commas that aren't within parentheses, brackets, or
+ * quotes, so that default values such as `(a, b)` stay intact.
+ */
+function splitTopLevel(list: string): string[] {
+  const results: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < list.length; i++) {
+    const char = list[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      results.push(list.substring(start, i));
+      start = i + 1;
+    }
+  }
+  results.push(list.substring(start));
+  return results;
+}
+
+/**
+ * Returns `value` checked against `spec`, using `name` as the argument name in
+ * error messages.
+ */
+function check(value: Value, spec: ParameterSpec, name: string): unknown {
+  if (spec.endsWith('?')) {
+    if (value.realNull === null) return null;
+    spec = spec.slice(0, -1) as ParameterType;
+  }
+
+  switch (spec as ParameterType) {
+    case 'boolean':
+      return value.assertBoolean(name);
+    case 'calculation':
+      return value.assertCalculation(name);
+    case 'color':
+      return value.assertColor(name);
+    case 'function':
+      return value.assertFunction(name);
+    case 'list':
+      return value.asList;
+    case 'map':
+      return value.assertMap(name);
+    case 'mixin':
+      return value.assertMixin(name);
+    case 'number':
+      return value.assertNumber(name);
+    case 'string':
+      return value.assertString(name);
+    case 'value':
+      return value;
+  }
+}
+
+/** Normalizes `name` so that hyphens and underscores are equivalent. */
+function normalize(name: string): string {
+  return name.replace(/_/g, '-');
+}
@@ -0,0 +1,103 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as proto from './vendor/embedded_sass_pb';
+
+/** A single load of one stylesheet by another. */
+export interface DependencyGraphEdge {
+  /**
+   * The canonical URL of the stylesheet that contains the load, or `null` if
+   * the compiler didn't report it.
+   *
+   * The compiler only reports this for relative URLs and for URLs whose scheme
+   * is one of the importer's `nonCanonicalScheme`s, since those are the only
+   * loads whose meaning can depend on the containing stylesheet.
+   */
+  readonly from: URL | null;
+
+  /**
+   * The URL that was loaded.
+   *
+   * For `Importer`s this is the canonical URL they returned. For
+   * `FileImporter`s it's the `file:` URL they returned, which the compiler then
+   * resolves to a stylesheet the same way it does for load paths.
+   */
+  readonly to: URL;
+
+  /** The URL as written in the load rule. */
+  readonly url: string;
+
+  /** Whether the load came from an `@import` rule. */
+  readonly fromImport: boolean;
+}
+
+/**
+ * The stylesheets a compilation loaded and how they loaded one another.
+ *
+ * The compiler resolves loads relative to the current stylesheet and loads
+ * from `loadPaths` on its own, so only loads that go through the host's
+ * importers have edges. Every stylesheet in `CompileResult.loadedUrls` is a
+ * node regardless.
+ */
+export interface DependencyGraph {
+  /** The URLs of every stylesheet the compilation loaded or resolved. */
+  readonly nodes: URL[];
+
+  /** The loads that were resolved by the host's importers, in order. */
+  readonly edges: DependencyGraphEdge[];
+}
+
+/**
+ * Records the edges of a compilation's dependency graph as the dispatcher
+ * answers importer requests.
+ */
+export class DependencyGraphBuilder {
+  private readonly edges: DependencyGraphEdge[] = [];
+
+  /** Records the outcome of a `CanonicalizeRequest`. */
+  addCanonicalize(
+    request: proto.OutboundMessage_CanonicalizeRequest,
+    response: proto.InboundMessage_CanonicalizeResponse,
+  ): void {
+    if (response.result.case !== 'url') return;
+    this.addEdge(request, response.result.value);
+  }
+
+  /** Records the outcome of a `FileImportRequest`. */
+  addFileImport(
+    request: proto.OutboundMessage_FileImportRequest,
+    response: proto.InboundMessage_FileImportResponse,
+  ): void {
+    if (response.result.case !== 'fileUrl') return;
+    this.addEdge(request, response.result.value);
+  }
+
+  private addEdge(
+    request:
+      | proto.OutboundMessage_CanonicalizeRequest
+      | proto.OutboundMessage_FileImportRequest,
+    to: string,
+  ): void {
+    this.edges.push({
+      from: request.containingUrl ? new URL(request.containingUrl) : null,
+      to: new URL(to),
+      url: request.url,
+      fromImport: request.fromImport,
+    });
+  }
+
+  /**
+   * Returns the graph for a compilation that loaded `loadedUrls`, including
+   * every edge recorded so far.
+   */
+  build(loadedUrls: URL[]): DependencyGraph {
+    const nodes = new Map<string, URL>();
+    for (const url of loadedUrls) nodes.set(url.href, url);
+    for (const {from, to} of this.edges) {
+      if (from && !nodes.has(from.href)) nodes.set(from.href, from);
+      if (!nodes.has(to.href)) nodes.set(to.href, to);
+    }
+    return {nodes: [...nodes.values()], edges: [...this.edges]};
+  }
+}
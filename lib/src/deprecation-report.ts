@@ -0,0 +1,62 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {Deprecation, SourceSpan} from './vendor/sass';
+
+/** The number of sample spans kept for each deprecation. */
+const maxSamples = 5;
+
+/** The occurrences of a single deprecation in a compilation. */
+export interface DeprecationReportEntry {
+  /** The deprecation that occurred. */
+  readonly deprecation: Deprecation;
+
+  /** The total number of times it occurred. */
+  readonly count: number;
+
+  /**
+   * The number of times it occurred in each stylesheet, indexed by the
+   * stylesheet's canonical URL. Occurrences without a location, such as those
+   * caused by the host's JavaScript API, only count towards `count`.
+   */
+  readonly files: Record<string, number>;
+
+  /** The locations of the first few occurrences that had locations. */
+  readonly samples: SourceSpan[];
+}
+
+/**
+ * A summary of the deprecations that occurred in a compilation, indexed by
+ * `Deprecation.id`.
+ */
+export type DeprecationReport = Record<string, DeprecationReportEntry>;
+
+/** Records the deprecations that occur in a single compilation. */
+export class DeprecationReportBuilder {
+  /** The entries recorded so far, by deprecation ID. */
+  private readonly entries = new Map<
+    string,
+    DeprecationReportEntry & {count: number}
+  >();
+
+  /** Records an occurrence of `deprecation` at `span`. */
+  add(deprecation: Deprecation, span?: SourceSpan): void {
+    let entry = this.entries.get(deprecation.id);
+    if (!entry) {
+      entry = {deprecation, count: 0, files: {}, samples: []};
+      this.entries.set(deprecation.id, entry);
+    }
+
+    entry.count++;
+    if (!span?.url) return;
+    const url = span.url.toString();
+    entry.files[url] = (entry.files[url] ?? 0) + 1;
+    if (entry.samples.length < maxSamples) entry.samples.push(span);
+  }
+
+  /** Returns the report of the deprecations recorded so far. */
+  build(): DeprecationReport {
+    return Object.fromEntries(this.entries);
+  }
+}
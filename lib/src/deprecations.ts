@@ -2,6 +2,9 @@
 // MIT-style license that can be found in the LICENSE file or at
 // https://opensource.org/licenses/MIT.
 
+import {AsyncLocalStorage} from 'async_hooks';
+
+import {DeprecationReportBuilder} from './deprecation-report';
 import {Deprecation, DeprecationOrId, Options} from './vendor/sass';
 import {Version} from './version';
 
@@ -34,6 +37,31 @@ export function getDeprecationIds(
 export const activeDeprecationOptions: Map<symbol, DeprecationOptions> =
   new Map();
 
+/**
+ * Map between active compilations that use `HostOptions.deprecationReport` and
+ * the reports they're building, using the same keys as
+ * `activeDeprecationOptions`.
+ *
+ * Host-side deprecations are recorded in the report of the compilation whose
+ * importer or function raised them.
+ */
+export const activeDeprecationReports: Map<symbol, DeprecationReportBuilder> =
+  new Map();
+
+/**
+ * The key in `activeDeprecationOptions` of the compilation whose importer or
+ * function is currently running, if any.
+ */
+const currentCompilation = new AsyncLocalStorage<symbol>();
+
+/**
+ * Runs `callback` on behalf of the compilation with `optionsKey`, so that
+ * host-side deprecations it raises are attributed to that compilation.
+ */
+export function runForCompilation<T>(optionsKey: symbol, callback: () => T): T {
+  return currentCompilation.run(optionsKey, callback);
+}
+
 /**
  * Shorthand for the subset of options related to deprecations.
  */
@@ -64,9 +92,16 @@ export function warnForHostSideDeprecation(
   if (isFatal(deprecation, options)) {
     throw Error(fullMessage);
   }
-  if (!isSilent(deprecation, options)) {
-    console.warn(fullMessage);
+  if (isSilent(deprecation, options)) return;
+  if (!options) {
+    const optionsKey = currentCompilation.getStore();
+    const report = optionsKey && activeDeprecationReports.get(optionsKey);
+    if (report) {
+      report.add(deprecation);
+      return;
+    }
   }
+  console.warn(fullMessage);
 }
 
 /**
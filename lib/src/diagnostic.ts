@@ -0,0 +1,27 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {Deprecation} from './deprecations';
+import {SourceSpan} from './vendor/sass';
+
+/** A warning or debug message emitted during a compilation. */
+export interface Diagnostic {
+  /**
+   * Whether this came from a warning, including a deprecation warning, or
+   * from a `@debug` rule.
+   */
+  readonly severity: 'warning' | 'debug';
+
+  /** The message, without any formatting or location information. */
+  readonly message: string;
+
+  /** The location in the stylesheet that the message refers to, if any. */
+  readonly span?: SourceSpan;
+
+  /** The Sass stack trace at the point the warning was emitted, if any. */
+  readonly stack?: string;
+
+  /** The deprecation this warns about, if it's a deprecation warning. */
+  readonly deprecationType?: Deprecation;
+}
@@ -6,8 +6,13 @@ import {Observable, Subject} from 'rxjs';
 import {filter, map, mergeMap, takeUntil} from 'rxjs/operators';
 import {create} from '@bufbuild/protobuf';
 
-import {OutboundResponse} from './messages';
+import {
+  InboundResponseType,
+  OutboundRequestMessage,
+  OutboundResponse,
+} from './messages';
 import * as proto from './vendor/embedded_sass_pb';
+import {DependencyGraphBuilder} from './dependency-graph';
 import {RequestTracker} from './request-tracker';
 import {PromiseOr, compilerError, hostError, thenOr} from './utils';
 
@@ -42,6 +47,13 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
   // ID and type will remove the ID.
   private readonly pendingOutboundRequests = new RequestTracker();
 
+  // The contents of all outbound requests that haven't been responded to yet,
+  // indexed by their IDs.
+  private readonly outboundRequestsById = new Map<
+    number,
+    OutboundRequestMessage
+  >();
+
   // All outbound messages for this compilation. If we detect any errors while
   // dispatching messages, this completes.
   private readonly messages$ = new Subject<proto.OutboundMessage>();
@@ -55,6 +67,9 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
   // exposed as a readonly Observable.
   private readonly errorInternal$ = new Subject<void>();
 
+  // Whether `abort()` has been called.
+  private aborted = false;
+
   /**
    * If the dispatcher encounters an error, this errors out. Upon error, the
    * dispatcher rejects all promises awaiting an outbound response, and silently
@@ -67,10 +82,18 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
    * silently.
    */
   readonly logEvents$ = this.messages$.pipe(
-    filter(message => message.message.case === 'logEvent'),
+    filter(message => message.message.case === 'logEvent' && !this.aborted),
     map(message => message.message.value as proto.OutboundMessage_LogEvent),
   );
 
+  /**
+   * The outbound requests whose handlers haven't responded yet, in the order
+   * they were received.
+   */
+  get pendingRequests(): OutboundRequestMessage[] {
+    return [...this.outboundRequestsById.values()];
+  }
+
   constructor(
     private readonly compilationId: number,
     private readonly outboundMessages$: Observable<
@@ -80,6 +103,7 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
       message: [number, proto.InboundMessage],
     ) => void,
     private readonly outboundRequestHandlers: DispatcherHandlers<sync>,
+    private readonly dependencyGraph?: DependencyGraphBuilder,
   ) {
     if (compilationId < 1) {
       throw Error(`Invalid compilation ID ${compilationId}.`);
@@ -154,6 +178,30 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
     }
   }
 
+  /**
+   * Stops running handlers and emitting events for this compilation.
+   *
+   * The compiler has no way to cancel a compilation, so it keeps running until
+   * it sends a CompileResponse. To make it finish quickly, all pending and
+   * future outbound requests are answered with errors, and responses from
+   * handlers that were already running are dropped. The callback passed to
+   * `sendCompileRequest` is still called once the compiler responds.
+   */
+  abort(): void {
+    if (this.aborted) return;
+    this.aborted = true;
+    try {
+      for (const [id, type] of this.pendingOutboundRequests.pending) {
+        this.sendInboundMessage(
+          id,
+          abortedResponse(type as InboundResponseType),
+        );
+      }
+    } catch (error) {
+      this.throwAndClose(error);
+    }
+  }
+
   // Stop the outbound message subscription.
   private unsubscribe(): void {
     this.unsubscribe$.next(undefined);
@@ -189,10 +237,15 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
         const id = request.id;
         const type = 'importResponse';
         this.pendingOutboundRequests.add(id, type);
+        this.outboundRequestsById.set(id, message.message);
+        if (this.aborted) {
+          return this.sendInboundMessage(id, abortedResponse(type));
+        }
 
         return thenOr(
           this.outboundRequestHandlers.handleImportRequest(request),
           response => {
+            if (this.aborted) return;
             this.sendInboundMessage(id, {case: type, value: response});
           },
         );
@@ -203,9 +256,15 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
         const id = request.id;
         const type = 'fileImportResponse';
         this.pendingOutboundRequests.add(id, type);
+        this.outboundRequestsById.set(id, message.message);
+        if (this.aborted) {
+          return this.sendInboundMessage(id, abortedResponse(type));
+        }
         return thenOr(
           this.outboundRequestHandlers.handleFileImportRequest(request),
           response => {
+            if (this.aborted) return;
+            this.dependencyGraph?.addFileImport(request, response);
             this.sendInboundMessage(id, {case: type, value: response});
           },
         );
@@ -216,9 +275,15 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
         const id = request.id;
         const type = 'canonicalizeResponse';
         this.pendingOutboundRequests.add(id, type);
+        this.outboundRequestsById.set(id, message.message);
+        if (this.aborted) {
+          return this.sendInboundMessage(id, abortedResponse(type));
+        }
         return thenOr(
           this.outboundRequestHandlers.handleCanonicalizeRequest(request),
           response => {
+            if (this.aborted) return;
+            this.dependencyGraph?.addCanonicalize(request, response);
             this.sendInboundMessage(id, {case: type, value: response});
           },
         );
@@ -229,9 +294,14 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
         const id = request.id;
         const type = 'functionCallResponse';
         this.pendingOutboundRequests.add(id, type);
+        this.outboundRequestsById.set(id, message.message);
+        if (this.aborted) {
+          return this.sendInboundMessage(id, abortedResponse(type));
+        }
         return thenOr(
           this.outboundRequestHandlers.handleFunctionCallRequest(request),
           response => {
+            if (this.aborted) return;
             this.sendInboundMessage(id, {case: type, value: response});
           },
         );
@@ -262,6 +332,7 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
       message.case === 'functionCallResponse'
     ) {
       this.pendingOutboundRequests.resolve(requestId, message.case);
+      this.outboundRequestsById.delete(requestId);
     } else {
       throw Error(`Unknown message type ${message.case}`);
     }
@@ -273,6 +344,51 @@ export class Dispatcher<sync extends 'sync' | 'async'> {
   }
 }
 
+/**
+ * Returns an error response of the given `type` for a request belonging to an
+ * aborted compilation.
+ */
+function abortedResponse(
+  type: InboundResponseType,
+): Exclude<
+  proto.InboundMessage['message'],
+  {case: undefined | 'compileRequest'}
+> {
+  const result = {
+    case: 'error',
+    value: 'The compilation was aborted.',
+  } as const;
+  switch (type) {
+    case 'importResponse':
+      return {
+        case: type,
+        value: create(proto.InboundMessage_ImportResponseSchema, {result}),
+      };
+
+    case 'fileImportResponse':
+      return {
+        case: type,
+        value: create(proto.InboundMessage_FileImportResponseSchema, {result}),
+      };
+
+    case 'canonicalizeResponse':
+      return {
+        case: type,
+        value: create(proto.InboundMessage_CanonicalizeResponseSchema, {
+          result,
+        }),
+      };
+
+    case 'functionCallResponse':
+      return {
+        case: type,
+        value: create(proto.InboundMessage_FunctionCallResponseSchema, {
+          result,
+        }),
+      };
+  }
+}
+
 /**
  * An interface for the handler callbacks that are passed to `new Dispatcher()`.
  */
@@ -0,0 +1,120 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as child_process from 'child_process';
+import {Duplex} from 'stream';
+import {create} from '@bufbuild/protobuf';
+
+import {compilerCommand} from './compiler-path';
+import {EmbeddedProtocolClient} from './embedded-protocol-client';
+import * as proto from './vendor/embedded_sass_pb';
+
+describe('EmbeddedProtocolClient', () => {
+  let process_: child_process.ChildProcess;
+  let client: EmbeddedProtocolClient;
+
+  beforeEach(() => {
+    process_ = child_process.spawn(
+      compilerCommand[0],
+      [...compilerCommand.slice(1), '--embedded'],
+      {windowsHide: true},
+    );
+    const stream = new Duplex({
+      read() {},
+      write(chunk, encoding, callback) {
+        process_.stdin!.write(chunk, encoding, callback);
+      },
+      final(callback) {
+        process_.stdin!.end(callback);
+      },
+    });
+    process_.stdout!.on('data', buffer => stream.push(buffer));
+    process_.stdout!.on('end', () => stream.push(null));
+    client = new EmbeddedProtocolClient(stream);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await new Promise(resolve => process_.once('exit', resolve));
+  });
+
+  const unusedHandlers = {
+    handleImportRequest: () => {
+      throw new Error('Unexpected import request');
+    },
+    handleFileImportRequest: () => {
+      throw new Error('Unexpected file import request');
+    },
+    handleCanonicalizeRequest: () => {
+      throw new Error('Unexpected canonicalize request');
+    },
+    handleFunctionCallRequest: () => {
+      throw new Error('Unexpected function call request');
+    },
+  };
+
+  /** Returns a request to compile `source` as SCSS. */
+  function compileRequest(
+    source: string,
+    importers: proto.InboundMessage_CompileRequest_Importer[] = [],
+  ): proto.InboundMessage_CompileRequest {
+    return create(proto.InboundMessage_CompileRequestSchema, {
+      input: {
+        case: 'string',
+        value: create(proto.InboundMessage_CompileRequest_StringInputSchema, {
+          source,
+        }),
+      },
+      importers,
+    });
+  }
+
+  it('reports the compiler version', async () => {
+    const response = await client.version();
+    expect(response.protocolVersion).toMatch(/^\d+\.\d+\.\d+/);
+    expect(response.implementationName).toBe('dart-sass');
+  });
+
+  it('compiles a stylesheet', async () => {
+    const response = await client.compile(
+      compileRequest('a {b: c}'),
+      unusedHandlers,
+    );
+    expect(response.result).toMatchObject({
+      case: 'success',
+      value: {css: 'a {\n  b: c;\n}'},
+    });
+  });
+
+  it('answers requests with the handlers', async () => {
+    const requests: string[] = [];
+    client.requests$.subscribe(([, request]) => requests.push(request.case));
+    const handleLogEvent = jest.fn();
+    const response = await client.compile(
+      compileRequest('@use "u:foo"; @debug ""', [
+        create(proto.InboundMessage_CompileRequest_ImporterSchema, {
+          importer: {case: 'importerId', value: 0},
+        }),
+      ]),
+      {
+        ...unusedHandlers,
+        handleCanonicalizeRequest: request =>
+          create(proto.InboundMessage_CanonicalizeResponseSchema, {
+            result: {case: 'url', value: request.url},
+          }),
+        handleImportRequest: () =>
+          create(proto.InboundMessage_ImportResponseSchema, {
+            result: {
+              case: 'success',
+              value: {contents: 'a {b: c}', syntax: proto.Syntax.SCSS},
+            },
+          }),
+        handleLogEvent,
+      },
+    );
+    expect(response.result.case).toBe('success');
+    expect(requests).toEqual(['canonicalizeRequest', 'importRequest']);
+    expect(handleLogEvent).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,220 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {Duplex} from 'stream';
+
+import {Observable, firstValueFrom} from 'rxjs';
+import {filter, map} from 'rxjs/operators';
+import {create} from '@bufbuild/protobuf';
+
+import {createDispatcher, promiseWithResolvers} from './compiler/utils';
+import {DispatcherHandlers} from './dispatcher';
+import {MessageTransformer} from './message-transformer';
+import {OutboundRequestMessage, OutboundRequestType} from './messages';
+import {PacketTransformer} from './packet-transformer';
+import * as utils from './utils';
+import * as proto from './vendor/embedded_sass_pb';
+
+/**
+ * The callbacks that answer a single compilation's requests to the host.
+ *
+ * This is a superset of the handlers the package's own compilers use, with an
+ * optional callback for the compilation's log events.
+ */
+export interface EmbeddedProtocolHandlers extends DispatcherHandlers<'async'> {
+  /** Called for each log event the compilation emits. */
+  handleLogEvent?: (event: proto.OutboundMessage_LogEvent) => void;
+}
+
+/**
+ * A client for the [Embedded Sass protocol] that talks to a compiler over an
+ * arbitrary duplex stream, such as the stdio of a process managed elsewhere or
+ * a socket to a remote machine.
+ *
+ * [Embedded Sass protocol]: https://github.com/sass/sass/blob/main/spec/embedded-protocol.md
+ *
+ * Messages are constructed and read using the generated protocol buffer types
+ * exported as `embeddedProtocol`. The client assigns compilation and request
+ * IDs itself, so those fields don't need to be set.
+ */
+export class EmbeddedProtocolClient {
+  /** The transformer for messages on `stream`. */
+  private readonly messageTransformer: MessageTransformer;
+
+  /** The ID of the next compilation. */
+  private compilationId = 1;
+
+  /** The compilations that haven't finished yet. */
+  private readonly compilations = new Set<
+    Promise<proto.OutboundMessage_CompileResponse>
+  >();
+
+  /** The ID of the next `VersionRequest`. */
+  private versionRequestId = 0;
+
+  /** Whether `close()` has been called. */
+  private closed = false;
+
+  /**
+   * Every message the compiler sends, along with the ID of the compilation it
+   * belongs to. Messages that don't belong to a compilation use ID 0.
+   *
+   * This errors if the stream fails or ends before `close()` is called.
+   */
+  readonly outboundMessages$: Observable<[number, proto.OutboundMessage]>;
+
+  /**
+   * The requests the compiler makes to the host, along with the ID of the
+   * compilation that made them.
+   *
+   * These are answered by the handlers passed to `compile()`, so this is only
+   * useful for observing them.
+   */
+  readonly requests$: Observable<[number, OutboundRequestMessage]>;
+
+  /** The log events the compiler emits, along with their compilation IDs. */
+  readonly logEvents$: Observable<[number, proto.OutboundMessage_LogEvent]>;
+
+  constructor(private readonly stream: Duplex) {
+    const buffers$ = new Observable<Buffer>(observer => {
+      stream.on('data', buffer => observer.next(buffer));
+      stream.on('error', error => observer.error(error));
+      stream.on('close', () => {
+        if (this.closed) {
+          observer.complete();
+        } else {
+          observer.error(
+            utils.compilerError('Embedded protocol stream closed unexpectedly'),
+          );
+        }
+      });
+    });
+    const packetTransformer = new PacketTransformer(buffers$, buffer =>
+      stream.write(buffer),
+    );
+    this.messageTransformer = new MessageTransformer(
+      packetTransformer.outboundProtobufs$,
+      packet => packetTransformer.writeInboundProtobuf(packet),
+    );
+
+    this.outboundMessages$ = this.messageTransformer.outboundMessages$;
+    this.requests$ = this.outboundMessages$.pipe(
+      filter(
+        (
+          entry,
+        ): entry is [
+          number,
+          proto.OutboundMessage & {message: OutboundRequestMessage},
+        ] => isRequestType(entry[1].message.case),
+      ),
+      map(([id, message]) => [id, message.message]),
+    );
+    this.logEvents$ = this.outboundMessages$.pipe(
+      filter(([, message]) => message.message.case === 'logEvent'),
+      map(([id, message]) => [
+        id,
+        message.message.value as proto.OutboundMessage_LogEvent,
+      ]),
+    );
+  }
+
+  /** Guards against using a closed client. */
+  private throwIfClosed(): void {
+    if (this.closed) {
+      throw utils.compilerError('Embedded protocol client has been closed');
+    }
+  }
+
+  /** Asks the compiler which versions of Sass and the protocol it supports. */
+  async version(): Promise<proto.OutboundMessage_VersionResponse> {
+    this.throwIfClosed();
+    const id = this.versionRequestId++;
+    const response = firstValueFrom(
+      this.outboundMessages$.pipe(
+        filter(
+          ([compilationId, {message}]) =>
+            compilationId === 0 &&
+            ((message.case === 'versionResponse' && message.value.id === id) ||
+              message.case === 'error'),
+        ),
+        map(([, {message}]) => {
+          if (message.case === 'error') {
+            throw utils.hostError(message.value.message);
+          }
+          return message.value as proto.OutboundMessage_VersionResponse;
+        }),
+      ),
+    );
+    this.messageTransformer.writeInboundMessage([
+      0,
+      create(proto.InboundMessageSchema, {
+        message: {
+          case: 'versionRequest',
+          value: create(proto.InboundMessage_VersionRequestSchema, {id}),
+        },
+      }),
+    ]);
+    return response;
+  }
+
+  /**
+   * Sends `request` to the compiler and resolves with its response. Requests
+   * the compiler makes to the host while compiling are answered by `handlers`.
+   *
+   * A response that describes a failed compilation still resolves. This only
+   * rejects if the protocol itself fails.
+   */
+  compile(
+    request: proto.InboundMessage_CompileRequest,
+    handlers: EmbeddedProtocolHandlers,
+  ): Promise<proto.OutboundMessage_CompileResponse> {
+    this.throwIfClosed();
+    const dispatcher = createDispatcher<'async'>(
+      this.compilationId++,
+      this.messageTransformer,
+      handlers,
+    );
+    if (handlers.handleLogEvent) {
+      dispatcher.logEvents$.subscribe(handlers.handleLogEvent);
+    }
+
+    // Avoid `new Promise()` here because `dispatcher.sendCompileRequest` can
+    // run its callback synchronously.
+    const {
+      promise: compilation,
+      resolve,
+      reject,
+    } = promiseWithResolvers<proto.OutboundMessage_CompileResponse>();
+    this.compilations.add(compilation);
+    dispatcher.sendCompileRequest(request, (error, response) => {
+      this.compilations.delete(compilation);
+      // Reset the compilation ID when the compiler goes idle to avoid
+      // overflowing it.
+      if (this.compilations.size === 0) this.compilationId = 1;
+      if (error) {
+        reject(error);
+      } else {
+        resolve(response!);
+      }
+    });
+    return compilation;
+  }
+
+  /** Waits for running compilations to finish, then ends the stream. */
+  async close(): Promise<void> {
+    this.closed = true;
+    await Promise.allSettled(this.compilations);
+    this.stream.end();
+  }
+}
+
+/** Returns whether `type` is the type of an outbound request. */
+function isRequestType(type: string | undefined): type is OutboundRequestType {
+  return (
+    type === 'importRequest' ||
+    type === 'fileImportRequest' ||
+    type === 'canonicalizeRequest' ||
+    type === 'functionCallRequest'
+  );
+}
@@ -2,6 +2,8 @@
 // MIT-style license that can be found in the LICENSE file or at
 // https://opensource.org/licenses/MIT.
 
+import {Diagnostic} from './diagnostic';
+import {OutboundRequestMessage} from './messages';
 import * as proto from './vendor/embedded_sass_pb';
 import {Exception as SassException, SourceSpan} from './vendor/sass';
 import {deprotofySourceSpan} from './deprotofy-span';
@@ -11,15 +13,71 @@ export class Exception extends Error implements SassException {
   readonly sassStack: string;
   readonly span: SourceSpan;
 
-  constructor(failure: proto.OutboundMessage_CompileResponse_CompileFailure) {
+  /**
+   * The warnings and debug messages the compilation emitted before it failed.
+   *
+   * This is only set if `HostOptions.collectDiagnostics` is `true`.
+   */
+  readonly diagnostics?: Diagnostic[];
+
+  constructor(
+    failure: proto.OutboundMessage_CompileResponse_CompileFailure,
+    diagnostics?: Diagnostic[],
+  ) {
     super(failure.formatted);
 
     this.sassMessage = failure.message;
     this.sassStack = failure.stackTrace;
     this.span = deprotofySourceSpan(failure.span!);
+    if (diagnostics) this.diagnostics = diagnostics;
   }
 
   toString(): string {
     return this.message;
   }
 }
+
+/**
+ * An error indicating that a compilation ran for longer than its `timeout`
+ * option allowed.
+ */
+export class TimeoutError extends Error {
+  /**
+   * Descriptions of the importer and function calls that the compilation was
+   * waiting on when it timed out. If this is empty, the compiler itself was
+   * still working on the compilation.
+   */
+  readonly pendingCalls: string[];
+
+  constructor(timeout: number, pendingRequests: OutboundRequestMessage[]) {
+    const pendingCalls = pendingRequests.map(describeRequest);
+    super(
+      `Compilation timed out after ${timeout}ms ` +
+        (pendingCalls.length === 0
+          ? 'while the compiler was running.'
+          : `while waiting for ${pendingCalls.join(', ')}.`),
+    );
+    this.name = 'TimeoutError';
+    this.pendingCalls = pendingCalls;
+  }
+}
+
+// Returns a human-readable description of the host call that `request` asks
+// for.
+function describeRequest(request: OutboundRequestMessage): string {
+  switch (request.case) {
+    case 'canonicalizeRequest':
+      return `importer canonicalize("${request.value.url}")`;
+
+    case 'importRequest':
+      return `importer load("${request.value.url}")`;
+
+    case 'fileImportRequest':
+      return `file importer findFileUrl("${request.value.url}")`;
+
+    case 'functionCallRequest':
+      return request.value.identifier.case === 'name'
+        ? `function ${request.value.identifier.value}()`
+        : 'anonymous function';
+  }
+}
@@ -0,0 +1,93 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {compileString, compileStringAsync} from './compile';
+import {defineFunction} from './define-function';
+import {ImporterCache} from './importer-cache';
+import {SassString} from './value/string';
+
+describe('options.modules', () => {
+  const tokens: Record<string, string> = {primary: 'blue', secondary: 'green'};
+
+  it('exposes functions and variables through @use', () => {
+    const result = compileString(
+      `
+        @use 'js:tokens';
+        a {b: tokens.get(secondary); c: tokens.$primary}
+      `,
+      {
+        modules: {
+          'js:tokens': {
+            functions: defineFunction('get($key)', {
+              params: {key: 'string'},
+              handler: ({key}) =>
+                new SassString(tokens[key.text], {quotes: false}),
+            }),
+            variables: {primary: new SassString('blue', {quotes: false})},
+          },
+        },
+      },
+    );
+    expect(result.css).toBe('a {\n  b: green;\n  c: blue;\n}');
+  });
+
+  it('passes keyword arguments to functions', async () => {
+    const result = await compileStringAsync(
+      "@use 'js:strings' as s; a {b: s.first($list: x y)}",
+      {
+        modules: {
+          'js:strings': {
+            functions: {'first($list)': async args => args[0].get(0)!},
+          },
+        },
+      },
+    );
+    expect(result.css).toBe('a {\n  b: x;\n}');
+  });
+
+  it("doesn't expose functions globally by their own names", () => {
+    expect(
+      compileString('a {b: get(x)}', {
+        modules: {'js:tokens': {functions: {'get($key)': args => args[0]}}},
+      }).css,
+    ).toBe('a {\n  b: get(x);\n}');
+  });
+
+  it("doesn't cache modules in an importer cache", () => {
+    const store = new Map<string, string>();
+    const importerCache = new ImporterCache({store});
+    for (const color of ['red', 'blue']) {
+      const result = compileString("@use 'js:theme'; a {b: theme.$color}", {
+        importerCache,
+        modules: {
+          'js:theme': {
+            variables: {color: new SassString(color, {quotes: false})},
+          },
+        },
+      });
+      expect(result.css).toBe(`a {\n  b: ${color};\n}`);
+    }
+    expect(store.size).toBe(0);
+  });
+
+  it('rejects a relative module URL', () => {
+    expect(() => compileString('a {b: c}', {modules: {tokens: {}}})).toThrow(
+      'options.modules: "tokens" must be an absolute URL',
+    );
+  });
+
+  it('rejects an invalid variable name', () => {
+    expect(() =>
+      compileString('a {b: c}', {
+        modules: {
+          'js:tokens': {
+            variables: {'a b': new SassString('x')},
+          },
+        },
+      }),
+    ).toThrow(
+      'options.modules: "js:tokens" has an invalid variable name "a b"',
+    );
+  });
+});
@@ -0,0 +1,136 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {URL} from 'url';
+
+import {Value} from './value';
+import * as types from './vendor/sass';
+
+/**
+ * A Sass module whose members are defined by the host, for
+ * `HostOptions.modules`.
+ */
+export interface HostModule<sync extends 'sync' | 'async'> {
+  /**
+   * The module's functions, in the same format as `Options.functions`. A
+   * stylesheet that loads the module with `@use` calls them with the module's
+   * namespace, such as `tokens.get("primary")`.
+   */
+  functions?: Record<string, types.CustomFunction<sync>>;
+
+  /**
+   * The module's variables, indexed by name without `$`. A stylesheet that
+   * loads the module with `@use` reads them with the module's namespace, such
+   * as `tokens.$primary`.
+   */
+  variables?: Record<string, Value>;
+}
+
+/** The prefix of the global functions that implement host modules' members. */
+const functionPrefix = 'sass-embedded-module';
+
+/** A Sass identifier, which is all that may be used as a member's name. */
+const identifier = /^-?[a-zA-Z_\u0080-\uffff][a-zA-Z0-9_\-\u0080-\uffff]*$/;
+
+/**
+ * Returns the global functions that implement the members of `modules`, in
+ * the same format as `Options.functions`.
+ *
+ * The compiler only supports global host functions, so each module's members
+ * are defined as global functions with names that are unlikely to conflict
+ * with a stylesheet's, and the module that `HostModuleImporter` loads forwards
+ * to them.
+ */
+export function hostModuleFunctions<sync extends 'sync' | 'async'>(
+  modules: Record<string, HostModule<sync>>,
+): Record<string, types.CustomFunction<sync>> {
+  const functions: Record<string, types.CustomFunction<sync>> = {};
+  Object.entries(modules).forEach(([url, module], i) => {
+    for (const [signature, fn] of Object.entries(module.functions ?? {})) {
+      functionName(url, signature);
+      functions[`${functionPrefix}-${i}-${signature.trim()}`] = fn;
+    }
+
+    const variables = module.variables ?? {};
+    if (Object.keys(variables).length === 0) return;
+    functions[`${functionPrefix}-${i}-variable($name)`] = args => {
+      const name = args[0].assertString('name').text;
+      if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+        throw new Error(`Module "${url}" has no variable $${name}.`);
+      }
+      return variables[name] as types.Value;
+    };
+  });
+  return functions;
+}
+
+/** An importer that loads the stylesheets for `HostOptions.modules`. */
+export class HostModuleImporter<
+  sync extends 'sync' | 'async',
+> implements types.Importer<sync> {
+  /** The contents of each module's stylesheet, by canonical URL. */
+  private readonly stylesheets = new Map<string, string>();
+
+  constructor(modules: Record<string, HostModule<sync>>) {
+    Object.entries(modules).forEach(([url, module], i) => {
+      let canonicalUrl: URL;
+      try {
+        canonicalUrl = new URL(url);
+      } catch {
+        throw new Error(`options.modules: "${url}" must be an absolute URL`);
+      }
+
+      const prefix = `${functionPrefix}-${i}`;
+      const rules: string[] = [];
+      for (const signature of Object.keys(module.functions ?? {})) {
+        const name = functionName(url, signature);
+        rules.push(
+          `@function ${name}($args...) {\n` +
+            `  @return ${prefix}-${name}($args...);\n` +
+            '}',
+        );
+      }
+      for (const name of Object.keys(module.variables ?? {})) {
+        if (!identifier.test(name)) {
+          throw new Error(
+            `options.modules: "${url}" has an invalid variable name "${name}"`,
+          );
+        }
+        rules.push(`$${name}: ${prefix}-variable("${name}");`);
+      }
+      this.stylesheets.set(canonicalUrl.toString(), rules.join('\n'));
+    });
+  }
+
+  canonicalize(url: string): URL | null {
+    let canonicalUrl: URL;
+    try {
+      canonicalUrl = new URL(url);
+    } catch {
+      return null;
+    }
+    return this.stylesheets.has(canonicalUrl.toString()) ? canonicalUrl : null;
+  }
+
+  load(canonicalUrl: URL): types.ImporterResult | null {
+    const contents = this.stylesheets.get(canonicalUrl.toString());
+    return contents === undefined ? null : {contents, syntax: 'scss'};
+  }
+}
+
+/**
+ * Returns the name of the function declared by `signature` in the module at
+ * `url`, or throws an error if it isn't valid.
+ */
+function functionName(url: string, signature: string): string {
+  const openParen = signature.indexOf('(');
+  const name = openParen === -1 ? '' : signature.substring(0, openParen).trim();
+  if (!identifier.test(name)) {
+    throw new Error(
+      `options.modules: "${url}" has an invalid function signature ` +
+        `"${signature}"`,
+    );
+  }
+  return name;
+}
@@ -0,0 +1,112 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {compileStringAsync} from './compile';
+import {HttpFetch, HttpImporter} from './http-importer';
+
+describe('HttpImporter', () => {
+  const files: Record<string, string> = {
+    'https://example.com/tokens/index.scss': '@use "colors"; a {b: colors.$c}',
+    'https://example.com/tokens/colors.scss': '$c: red',
+  };
+
+  /** A fake fetch that serves `files` with their URLs as ETags. */
+  function fakeFetch(): jest.Mock & HttpFetch {
+    return jest.fn(async (url: URL, {headers}) => {
+      const contents = files[url.toString()];
+      const status =
+        contents === undefined
+          ? 404
+          : headers['If-None-Match'] === url.toString()
+            ? 304
+            : 200;
+      return {
+        status,
+        headers: {get: () => url.toString()},
+        text: async () => contents,
+      };
+    });
+  }
+
+  /** Returns a simple Map-backed cache store. */
+  function memoryStore(): Map<string, string> {
+    return new Map<string, string>();
+  }
+
+  it('loads remote stylesheets and their relative dependencies', async () => {
+    const fetch = fakeFetch();
+    const result = await compileStringAsync(
+      '@use "https://example.com/tokens/index.scss"',
+      {importers: [new HttpImporter({fetch})]},
+    );
+    expect(result.css).toBe('a {\n  b: red;\n}');
+    expect(fetch.mock.calls.map(([url]) => url.toString())).toEqual([
+      'https://example.com/tokens/index.scss',
+      'https://example.com/tokens/colors.scss',
+    ]);
+  });
+
+  it('revalidates cached stylesheets with their ETag', async () => {
+    const cache = memoryStore();
+    const source = '@use "https://example.com/tokens/colors.scss" as c';
+    await compileStringAsync(source, {
+      importers: [new HttpImporter({fetch: fakeFetch(), cache})],
+    });
+
+    const fetch = fakeFetch();
+    await compileStringAsync(source, {
+      importers: [new HttpImporter({fetch, cache})],
+    });
+    expect(fetch).toHaveBeenCalledWith(
+      new URL('https://example.com/tokens/colors.scss'),
+      {headers: {'If-None-Match': 'https://example.com/tokens/colors.scss'}},
+    );
+  });
+
+  it('re-fetches stylesheets whose cache entry is corrupt', async () => {
+    const cache = memoryStore();
+    cache.set('https://example.com/tokens/colors.scss', '{"etag":');
+
+    const fetch = fakeFetch();
+    const result = await compileStringAsync(
+      '@use "https://example.com/tokens/colors.scss" as c; a {b: c.$c}',
+      {importers: [new HttpImporter({fetch, cache})]},
+    );
+    expect(result.css).toBe('a {\n  b: red;\n}');
+    expect(fetch).toHaveBeenCalledWith(
+      new URL('https://example.com/tokens/colors.scss'),
+      {headers: {}},
+    );
+    expect(
+      JSON.parse(cache.get('https://example.com/tokens/colors.scss')!),
+    ).toEqual({
+      etag: 'https://example.com/tokens/colors.scss',
+      contents: '$c: red',
+    });
+  });
+
+  it('serves only from the cache when offline', async () => {
+    const cache = memoryStore();
+    await compileStringAsync('@use "https://example.com/tokens/index.scss"', {
+      importers: [new HttpImporter({fetch: fakeFetch(), cache})],
+    });
+
+    const fetch = fakeFetch();
+    const importer = new HttpImporter({fetch, cache, offline: true});
+    const result = await compileStringAsync(
+      '@use "https://example.com/tokens/index.scss"',
+      {importers: [importer]},
+    );
+    expect(result.css).toBe('a {\n  b: red;\n}');
+    expect(fetch).not.toHaveBeenCalled();
+
+    await expect(
+      compileStringAsync('@use "https://example.com/other.scss"', {
+        importers: [importer],
+      }),
+    ).rejects.toThrow(
+      "https://example.com/other.scss isn't cached and the importer is offline.",
+    );
+  });
+});
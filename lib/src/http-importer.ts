@@ -0,0 +1,177 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as p from 'path';
+import {URL} from 'url';
+
+import {ImporterCacheStore} from './importer-cache';
+import * as utils from './utils';
+import {CanonicalizeContext, Importer, ImporterResult} from './vendor/sass';
+
+/** The subset of a fetch `Response` that `HttpImporter` uses. */
+export interface HttpResponse {
+  readonly status: number;
+  readonly headers: {get(name: string): string | null};
+  text(): Promise<string>;
+}
+
+/**
+ * A function that makes an HTTP GET request for `url` with the given headers.
+ * The global `fetch()` function satisfies this type.
+ */
+export type HttpFetch = (
+  url: URL,
+  init: {headers: Record<string, string>},
+) => Promise<HttpResponse>;
+
+/** Options for `HttpImporter`. */
+export interface HttpImporterOptions {
+  /**
+   * The function used to make requests.
+   *
+   * Defaults to the global `fetch()` function.
+   */
+  fetch?: HttpFetch;
+
+  /**
+   * Where to cache the stylesheets that have been loaded, such as a
+   * `DirectoryCacheStore` to keep them across processes.
+   *
+   * Cached stylesheets are revalidated with their `ETag`, and are used as-is if
+   * a request fails or if `offline` is `true`.
+   */
+  cache?: ImporterCacheStore;
+
+  /**
+   * Whether to load stylesheets only from `cache` without making any requests.
+   *
+   * Defaults to `false`.
+   */
+  offline?: boolean;
+}
+
+/** A stylesheet cached by an `HttpImporter`. */
+interface CachedResponse {
+  /** The `ETag` the stylesheet was served with, if any. */
+  etag: string | null;
+
+  /** The stylesheet's contents. */
+  contents: string;
+}
+
+/**
+ * An importer that loads stylesheets from `https:` URLs.
+ *
+ * URLs without a `.sass`, `.scss`, or `.css` extension are given `.scss`.
+ * Otherwise they're loaded exactly as written, without looking for partials or
+ * index files, and each stylesheet's syntax is determined by its extension.
+ * Relative URLs in a stylesheet that was loaded by this importer are resolved
+ * relative to that stylesheet's URL.
+ *
+ * A URL that responds with 404 is treated as not found. Any other unsuccessful
+ * response is an error.
+ */
+export class HttpImporter implements Importer<'async'> {
+  /** The function used to make requests. */
+  private readonly fetch: HttpFetch;
+
+  /** Where loaded stylesheets are cached, if anywhere. */
+  private readonly cache?: ImporterCacheStore;
+
+  /** Whether to load stylesheets only from `cache`. */
+  private readonly offline: boolean;
+
+  constructor(options?: HttpImporterOptions) {
+    this.fetch = options?.fetch ?? ((url, init) => fetch(url, init));
+    this.cache = options?.cache;
+    this.offline = options?.offline ?? false;
+    if (this.offline && !this.cache) {
+      throw new Error('options.cache must be passed if options.offline is set');
+    }
+  }
+
+  canonicalize(url: string, context: CanonicalizeContext): URL | null {
+    let canonicalUrl: URL;
+    if (url.startsWith('https:')) {
+      canonicalUrl = new URL(url);
+    } else if (/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+      return null;
+    } else {
+      const containingUrl = context.containingUrl;
+      if (containingUrl?.protocol !== 'https:') return null;
+      canonicalUrl = new URL(url, containingUrl);
+    }
+
+    if (!['.sass', '.scss', '.css'].includes(extension(canonicalUrl))) {
+      canonicalUrl.pathname += '.scss';
+    }
+    return canonicalUrl;
+  }
+
+  async load(canonicalUrl: URL): Promise<ImporterResult | null> {
+    const key = canonicalUrl.toString();
+    const cached = this.getCached(key);
+
+    if (this.offline) {
+      if (!cached) {
+        throw new Error(`${key} isn't cached and the importer is offline.`);
+      }
+      return importerResult(canonicalUrl, cached.contents);
+    }
+
+    let response: HttpResponse;
+    try {
+      response = await this.fetch(canonicalUrl, {
+        headers: cached?.etag ? {'If-None-Match': cached.etag} : {},
+      });
+    } catch (error) {
+      if (cached) return importerResult(canonicalUrl, cached.contents);
+      throw error;
+    }
+
+    if (response.status === 304 && cached) {
+      return importerResult(canonicalUrl, cached.contents);
+    } else if (response.status === 404) {
+      return null;
+    } else if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Failed to load ${key}: HTTP ${response.status}.`);
+    }
+
+    const contents = await response.text();
+    if (this.cache) {
+      const entry: CachedResponse = {
+        etag: response.headers.get('etag'),
+        contents,
+      };
+      this.cache.set(key, JSON.stringify(entry));
+    }
+    return importerResult(canonicalUrl, contents);
+  }
+
+  /**
+   * Returns the cached response for `key`, or `undefined` if it isn't cached.
+   *
+   * A cached value that can't be parsed is removed and treated as a miss.
+   */
+  private getCached(key: string): CachedResponse | undefined {
+    const value = this.cache?.get(key);
+    if (value === undefined) return undefined;
+    try {
+      return JSON.parse(value);
+    } catch {
+      this.cache!.delete(key);
+      return undefined;
+    }
+  }
+}
+
+/** Returns the importer result for `contents` loaded from `url`. */
+function importerResult(url: URL, contents: string): ImporterResult {
+  return {contents, syntax: utils.syntaxOf(url.pathname)};
+}
+
+/** Returns the extension of `url`'s path. */
+function extension(url: URL): string {
+  return p.posix.extname(url.pathname);
+}
@@ -0,0 +1,81 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as p from 'path';
+
+import {compileString} from './compile';
+import {DirectoryCacheStore, ImporterCache} from './importer-cache';
+import {Importer} from './vendor/sass';
+
+describe('DirectoryCacheStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(p.join(os.tmpdir(), 'sass-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true});
+  });
+
+  it('persists entries across instances', () => {
+    new DirectoryCacheStore(dir).set('key', 'value');
+    const store = new DirectoryCacheStore(dir);
+    expect(store.get('key')).toBe('value');
+    expect([...store.keys()]).toEqual(['key']);
+  });
+
+  it('deletes entries', () => {
+    const store = new DirectoryCacheStore(dir);
+    store.set('key', 'value');
+    store.delete('key');
+    expect(store.get('key')).toBeUndefined();
+    expect([...store.keys()]).toEqual([]);
+  });
+
+  it('treats corrupt entries as cache misses', () => {
+    const store = new DirectoryCacheStore(dir);
+    store.set('key', 'value');
+    const [file] = fs.readdirSync(dir);
+    fs.writeFileSync(p.join(dir, file), '["key", "val');
+    fs.writeFileSync(p.join(dir, 'other.json'), '{}');
+
+    expect(store.get('key')).toBeUndefined();
+    expect([...store.keys()]).toEqual([]);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('leaves no temporary files behind', () => {
+    const store = new DirectoryCacheStore(dir);
+    store.set('key', 'value');
+    store.set('key', 'new value');
+    expect(fs.readdirSync(dir)).toHaveLength(1);
+    expect(store.get('key')).toBe('new value');
+  });
+
+  it('recovers from garbage in the cache directory', () => {
+    const importer: Importer<'sync'> = {
+      canonicalize: jest.fn((url: string) => new URL(url)),
+      load: jest.fn(() => ({contents: 'a {b: c}', syntax: 'scss' as const})),
+    };
+    function compile(): string {
+      return compileString('@use "u:foo"', {
+        importers: [importer],
+        importerCache: new ImporterCache({
+          store: new DirectoryCacheStore(dir),
+          importerKey: () => 'importer',
+        }),
+      }).css;
+    }
+
+    compile();
+    for (const file of fs.readdirSync(dir)) {
+      fs.writeFileSync(p.join(dir, file), 'garbage');
+    }
+    expect(compile()).toBe('a {\n  b: c;\n}');
+    expect(importer.load).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,341 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {createHash, randomBytes} from 'crypto';
+import * as fs from 'fs';
+import * as p from 'path';
+import {RawSourceMap} from 'source-map-js';
+
+import {FileImporter, Importer} from './vendor/sass';
+import * as proto from './vendor/embedded_sass_pb';
+
+/**
+ * A string-keyed store for `ImporterCache` entries. A `Map<string, string>`
+ * satisfies this, as does `DirectoryCacheStore`.
+ */
+export interface ImporterCacheStore {
+  get(key: string): string | undefined;
+  set(key: string, value: string): unknown;
+  delete(key: string): unknown;
+  keys(): Iterable<string>;
+}
+
+/** Options for `new ImporterCache()`. */
+export interface ImporterCacheOptions {
+  /**
+   * Where to store cached results.
+   *
+   * Defaults to a new in-memory `Map`.
+   */
+  store?: ImporterCacheStore;
+
+  /**
+   * Returns a string that uniquely identifies `importer`.
+   *
+   * By default each importer object is identified by a number that's only
+   * meaningful within the current process, so a persistent store should be
+   * used with a function that returns a stable name for each importer.
+   */
+  importerKey?: (importer: Importer | FileImporter) => string;
+}
+
+/** A cached `canonicalize()` or `findFileUrl()` result. */
+interface ResolutionEntry {
+  kind: 'canonicalize' | 'findFileUrl';
+
+  /** The URL that was passed to the importer. */
+  url: string;
+
+  /** The URL the importer returned, or `null` if it didn't recognize `url`. */
+  result: string | null;
+}
+
+/** A cached `load()` result. */
+interface LoadEntry {
+  kind: 'load';
+
+  /** The canonical URL that was loaded. */
+  url: string;
+
+  /** The loaded stylesheet, or `null` if the importer couldn't load it. */
+  result: {
+    contents: string;
+    syntax: proto.Syntax;
+    sourceMapUrl: string;
+
+    /** The stylesheet's input source map, if the importer returned one. */
+    sourceMap?: RawSourceMap;
+  } | null;
+}
+
+type CacheEntry = ResolutionEntry | LoadEntry;
+
+/** A resolution that was found in the cache. */
+export interface CachedResolution {
+  /** The URL the importer returned, or `null` if it didn't recognize it. */
+  url: string | null;
+
+  /** Whether the result applies regardless of the containing URL. */
+  containingUrlUnused: boolean;
+}
+
+/**
+ * Caches the results of custom importers so that they can be reused across
+ * compilations.
+ *
+ * Only successful results are cached. Results that depend on the containing
+ * stylesheet are cached separately for each containing URL, and results that
+ * don't are shared between all of them.
+ *
+ * The `get*()` and `set*()` methods are marked as public so that the importer
+ * registry can access them, but they're not part of the package's public API
+ * and should not be accessed by user code. They may be renamed or removed
+ * without warning in the future.
+ */
+export class ImporterCache {
+  private readonly store: ImporterCacheStore;
+
+  private readonly importerKey: (importer: Importer | FileImporter) => string;
+
+  /** The default identities for importer objects. */
+  private readonly importerIds = new WeakMap<object, number>();
+
+  /** The next ID to use for `importerIds`. */
+  private nextImporterId = 0;
+
+  constructor(options?: ImporterCacheOptions) {
+    this.store = options?.store ?? new Map<string, string>();
+    this.importerKey =
+      options?.importerKey ??
+      (importer => {
+        let id = this.importerIds.get(importer);
+        if (id === undefined) {
+          id = this.nextImporterId++;
+          this.importerIds.set(importer, id);
+        }
+        return `${id}`;
+      });
+  }
+
+  /**
+   * Removes every cached result that involves `url`, either as the URL passed
+   * to an importer or as the URL one returned.
+   */
+  invalidate(url: URL | string): void {
+    const href = url.toString();
+    for (const key of [...this.store.keys()]) {
+      const entry = this.getEntry(key);
+      if (
+        !entry ||
+        entry.url === href ||
+        (entry.kind !== 'load' && entry.result === href)
+      ) {
+        this.store.delete(key);
+      }
+    }
+  }
+
+  /** Removes every cached result. */
+  clear(): void {
+    for (const key of [...this.store.keys()]) this.store.delete(key);
+  }
+
+  /**
+   * Returns the cached result of `kind` for `request`, or `undefined` if it
+   * isn't cached.
+   */
+  getResolution(
+    kind: ResolutionEntry['kind'],
+    importer: Importer | FileImporter,
+    request:
+      | proto.OutboundMessage_CanonicalizeRequest
+      | proto.OutboundMessage_FileImportRequest,
+  ): CachedResolution | undefined {
+    for (const containingUrlUnused of [true, false]) {
+      const entry = this.getEntry(
+        this.resolutionKey(kind, importer, request, containingUrlUnused),
+      );
+      if (entry?.kind === kind) {
+        return {url: entry.result, containingUrlUnused};
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Caches `response` as the result of `kind` for `request`.
+   */
+  setResolution(
+    kind: ResolutionEntry['kind'],
+    importer: Importer | FileImporter,
+    request:
+      | proto.OutboundMessage_CanonicalizeRequest
+      | proto.OutboundMessage_FileImportRequest,
+    response:
+      | proto.InboundMessage_CanonicalizeResponse
+      | proto.InboundMessage_FileImportResponse,
+  ): void {
+    if (response.result.case === 'error') return;
+    this.setEntry(
+      this.resolutionKey(kind, importer, request, response.containingUrlUnused),
+      {kind, url: request.url, result: response.result.value ?? null},
+    );
+  }
+
+  /**
+   * Returns the cached result of loading `url`, or `undefined` if it isn't
+   * cached.
+   */
+  getLoad(importer: Importer, url: string): LoadEntry['result'] | undefined {
+    const entry = this.getEntry(this.loadKey(importer, url));
+    return entry?.kind === 'load' ? entry.result : undefined;
+  }
+
+  /**
+   * Caches `response` as the result of loading `url`, along with the input
+   * `sourceMap` the importer returned for it, if any.
+   */
+  setLoad(
+    importer: Importer,
+    url: string,
+    response: proto.InboundMessage_ImportResponse,
+    sourceMap?: RawSourceMap,
+  ): void {
+    if (response.result.case === 'error') return;
+    const success = response.result.value;
+    this.setEntry(this.loadKey(importer, url), {
+      kind: 'load',
+      url,
+      result: success
+        ? {
+            contents: success.contents,
+            syntax: success.syntax,
+            sourceMapUrl: success.sourceMapUrl ?? '',
+            sourceMap,
+          }
+        : null,
+    });
+  }
+
+  /** Returns the key for a `canonicalize()` or `findFileUrl()` result. */
+  private resolutionKey(
+    kind: ResolutionEntry['kind'],
+    importer: Importer | FileImporter,
+    request:
+      | proto.OutboundMessage_CanonicalizeRequest
+      | proto.OutboundMessage_FileImportRequest,
+    containingUrlUnused: boolean,
+  ): string {
+    return JSON.stringify([
+      kind,
+      this.importerKey(importer),
+      request.url,
+      request.fromImport,
+      containingUrlUnused ? null : (request.containingUrl ?? ''),
+    ]);
+  }
+
+  /** Returns the key for a `load()` result. */
+  private loadKey(importer: Importer, url: string): string {
+    return JSON.stringify(['load', this.importerKey(importer), url]);
+  }
+
+  /**
+   * Returns the entry stored for `key`. An entry that can't be parsed is
+   * deleted and treated as a cache miss.
+   */
+  private getEntry(key: string): CacheEntry | undefined {
+    const value = this.store.get(key);
+    if (value === undefined) return undefined;
+    try {
+      return JSON.parse(value);
+    } catch {
+      this.store.delete(key);
+      return undefined;
+    }
+  }
+
+  private setEntry(key: string, entry: CacheEntry): void {
+    this.store.set(key, JSON.stringify(entry));
+  }
+}
+
+/**
+ * An `ImporterCacheStore` that persists entries as files in a directory, so
+ * that they survive across processes.
+ */
+export class DirectoryCacheStore implements ImporterCacheStore {
+  constructor(private readonly directory: string) {
+    fs.mkdirSync(directory, {recursive: true});
+  }
+
+  get(key: string): string | undefined {
+    const entry = this.readFile(this.path(key));
+    return entry?.[0] === key ? entry[1] : undefined;
+  }
+
+  set(key: string, value: string): void {
+    // Write the entry to a temporary file first so that a concurrent read, or
+    // a process that dies mid-write, never sees a partial entry.
+    const path = this.path(key);
+    const temp = `${path}.${randomBytes(8).toString('hex')}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify([key, value]));
+    try {
+      fs.renameSync(temp, path);
+    } catch (error) {
+      fs.rmSync(temp, {force: true});
+      throw error;
+    }
+  }
+
+  delete(key: string): void {
+    fs.rmSync(this.path(key), {force: true});
+  }
+
+  *keys(): IterableIterator<string> {
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+      const entry = this.readFile(p.join(this.directory, file));
+      if (entry) yield entry[0];
+    }
+  }
+
+  /** Returns the path of the file that stores `key`. */
+  private path(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return p.join(this.directory, `${hash}.json`);
+  }
+
+  /**
+   * Returns the key and value stored in `path`, or `undefined` if it doesn't
+   * exist. A file that doesn't contain a valid entry is deleted.
+   */
+  private readFile(path: string): [string, string] | undefined {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(contents);
+    } catch {
+      entry = undefined;
+    }
+    if (
+      Array.isArray(entry) &&
+      entry.length === 2 &&
+      typeof entry[0] === 'string' &&
+      typeof entry[1] === 'string'
+    ) {
+      return entry as [string, string];
+    }
+
+    fs.rmSync(path, {force: true});
+    return undefined;
+  }
+}
@@ -0,0 +1,115 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as p from 'path';
+
+import {compileString} from './compile';
+import {ImporterCache} from './importer-cache';
+import {ImporterMiddleware} from './importer-middleware';
+
+describe('importer middleware', () => {
+  const importer = {
+    canonicalize: (url: string) => (url.startsWith('u:') ? new URL(url) : null),
+    load: (url: URL) => ({
+      contents: `a {b: ${url.pathname}}`,
+      syntax: 'scss' as const,
+    }),
+  };
+
+  it('runs in order around each importer call', () => {
+    const calls: string[] = [];
+    const middleware: ImporterMiddleware<'sync'>[] = [
+      {
+        canonicalize: (request, next) => {
+          calls.push(`outer ${request.url}`);
+          return next(request.url.replace(/^~/, 'u:'));
+        },
+      },
+      {
+        canonicalize: (request, next) => {
+          calls.push(`inner ${request.url}`);
+          return next(request.url);
+        },
+        load: (request, next) => {
+          calls.push(`load ${request.canonicalUrl}`);
+          return next(request.canonicalUrl);
+        },
+      },
+    ];
+
+    const result = compileString('@use "~foo" as foo', {
+      importers: [importer],
+      importerMiddleware: middleware,
+    });
+    expect(result.css).toBe('a {\n  b: foo;\n}');
+    expect(calls).toEqual(['outer ~foo', 'inner u:foo', 'load u:foo']);
+  });
+
+  it('can substitute contents', () => {
+    const result = compileString('@use "u:foo"', {
+      importers: [importer],
+      importerMiddleware: [
+        {load: () => ({contents: 'x {y: z}', syntax: 'scss'})},
+      ],
+    });
+    expect(result.css).toBe('x {\n  y: z;\n}');
+  });
+
+  it('can deny loads', () => {
+    expect(() =>
+      compileString('@use "u:secret"', {
+        importers: [importer],
+        importerMiddleware: [
+          {
+            canonicalize: (request, next) => {
+              if (request.url.includes('secret')) {
+                throw new Error(`${request.url} is not allowed`);
+              }
+              return next(request.url);
+            },
+          },
+        ],
+      }),
+    ).toThrow('u:secret is not allowed');
+  });
+
+  it('sees loads from load paths', () => {
+    const dir = fs.mkdtempSync(p.join(os.tmpdir(), 'sass-middleware-'));
+    try {
+      fs.writeFileSync(p.join(dir, '_foo.scss'), 'a {b: c}');
+      const urls: string[] = [];
+      const result = compileString('@use "foo"', {
+        loadPaths: [dir],
+        importerMiddleware: [
+          {
+            canonicalize: (request, next) => {
+              urls.push(request.url);
+              return next(request.url);
+            },
+          },
+        ],
+      });
+      expect(result.css).toBe('a {\n  b: c;\n}');
+      expect(urls).toEqual(['foo']);
+    } finally {
+      fs.rmSync(dir, {recursive: true});
+    }
+  });
+
+  it("can't be used with an importer cache", () => {
+    expect(() =>
+      compileString('@use "u:foo"', {
+        importers: [importer],
+        importerCache: new ImporterCache(),
+        importerMiddleware: [
+          {load: (request, next) => next(request.canonicalUrl)},
+        ],
+      }),
+    ).toThrow(
+      "options.importerCache can't be used with options.importerMiddleware",
+    );
+  });
+});
@@ -0,0 +1,144 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as p from 'path';
+import {URL, pathToFileURL} from 'url';
+
+import {PromiseOr} from './utils';
+import {
+  CanonicalizeContext,
+  FileImporter,
+  Importer,
+  ImporterResult,
+} from './vendor/sass';
+
+/** A call to an importer's `canonicalize()` or `findFileUrl()` method. */
+export interface CanonicalizeMiddlewareRequest {
+  /**
+   * The URL being loaded. This is the URL as it appears in the stylesheet,
+   * unless earlier middleware has rewritten it.
+   */
+  readonly url: string;
+
+  /** The importer that's being called. */
+  readonly importer: Importer | FileImporter;
+
+  /** The context the importer is called with. */
+  readonly context: CanonicalizeContext;
+}
+
+/** A call to an importer's `load()` method. */
+export interface LoadMiddlewareRequest {
+  /**
+   * The canonical URL being loaded. This is the URL returned by
+   * `canonicalize()`, unless earlier middleware has rewritten it.
+   */
+  readonly canonicalUrl: URL;
+
+  /** The importer that's being called. */
+  readonly importer: Importer;
+}
+
+/**
+ * Functions that wrap every call the compiler makes to the host's importers.
+ *
+ * Each function receives the request and a `next` callback that passes the
+ * request on to the next middleware, or to the importer itself for the last
+ * one. Middleware can inspect or replace the argument it passes to `next`,
+ * inspect or replace the result `next` returns, skip `next` entirely to answer
+ * the request itself, or throw to fail the load.
+ *
+ * This wraps the importers in `Options.importers` as well as
+ * `Options.loadPaths`, which are resolved by the host rather than the compiler
+ * when middleware is in use. Loads that the compiler resolves on its own, such
+ * as relative loads from the file system and those handled by
+ * `NodePackageImporter`, never reach the host and so can't be intercepted.
+ * Middleware can't be combined with `HostOptions.importerCache`, since cached
+ * results wouldn't pass through it.
+ */
+export interface ImporterMiddleware<
+  sync extends 'sync' | 'async' = 'sync' | 'async',
+> {
+  /**
+   * Wraps calls to `Importer.canonicalize()` and `FileImporter.findFileUrl()`.
+   */
+  canonicalize?(
+    request: CanonicalizeMiddlewareRequest,
+    next: (url: string) => PromiseOr<URL | null, sync>,
+  ): PromiseOr<URL | null, sync>;
+
+  /** Wraps calls to `Importer.load()`. */
+  load?(
+    request: LoadMiddlewareRequest,
+    next: (canonicalUrl: URL) => PromiseOr<ImporterResult | null, sync>,
+  ): PromiseOr<ImporterResult | null, sync>;
+}
+
+/** Runs importer calls through a list of `ImporterMiddleware`. */
+export class ImporterMiddlewareChain<sync extends 'sync' | 'async'> {
+  constructor(private readonly middleware: ImporterMiddleware<sync>[]) {}
+
+  /** Whether there's any middleware to run. */
+  get isEmpty(): boolean {
+    return this.middleware.length === 0;
+  }
+
+  /**
+   * Passes a canonicalize request for `url` through the middleware, ending
+   * with `callback`.
+   */
+  canonicalize(
+    importer: Importer<sync> | FileImporter<sync>,
+    url: string,
+    context: CanonicalizeContext,
+    callback: (url: string) => PromiseOr<URL | null, sync>,
+  ): PromiseOr<URL | null, sync> {
+    const run = (index: number, url: string): PromiseOr<URL | null, sync> => {
+      if (index === this.middleware.length) return callback(url);
+      const middleware = this.middleware[index];
+      return middleware.canonicalize
+        ? middleware.canonicalize({url, importer, context}, url =>
+            run(index + 1, url),
+          )
+        : run(index + 1, url);
+    };
+    return run(0, url);
+  }
+
+  /**
+   * Passes a load request for `canonicalUrl` through the middleware, ending
+   * with `callback`.
+   */
+  load(
+    importer: Importer<sync>,
+    canonicalUrl: URL,
+    callback: (canonicalUrl: URL) => PromiseOr<ImporterResult | null, sync>,
+  ): PromiseOr<ImporterResult | null, sync> {
+    const run = (
+      index: number,
+      canonicalUrl: URL,
+    ): PromiseOr<ImporterResult | null, sync> => {
+      if (index === this.middleware.length) return callback(canonicalUrl);
+      const middleware = this.middleware[index];
+      return middleware.load
+        ? middleware.load({canonicalUrl, importer}, canonicalUrl =>
+            run(index + 1, canonicalUrl),
+          )
+        : run(index + 1, canonicalUrl);
+    };
+    return run(0, canonicalUrl);
+  }
+}
+
+/**
+ * Returns a `FileImporter` that resolves relative URLs against `loadPath`, so
+ * that a load path can be run through middleware.
+ */
+export function loadPathImporter(loadPath: string): FileImporter<'sync'> {
+  const base = pathToFileURL(p.resolve(loadPath) + p.sep);
+  return {
+    findFileUrl: url =>
+      /^[a-z][a-z0-9+.-]*:/i.test(url) ? null : new URL(url, base),
+  };
+}
@@ -0,0 +1,97 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as p from 'path';
+import {pathToFileURL} from 'url';
+
+import {compileString} from './compile';
+import {AliasImporter} from './importer-registry';
+
+describe('AliasImporter', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(p.join(os.tmpdir(), 'sass-alias-'));
+    fs.mkdirSync(p.join(dir, 'ds/button'), {recursive: true});
+    fs.writeFileSync(p.join(dir, 'ds/_colors.scss'), '');
+    fs.writeFileSync(p.join(dir, 'ds/button/_index.scss'), '');
+    fs.writeFileSync(p.join(dir, 'theme.scss'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true});
+  });
+
+  it('resolves wildcard aliases to partials and index files', () => {
+    const importer = new AliasImporter({
+      paths: {'@ds/*': 'ds/*'},
+      baseDir: dir,
+    });
+    const context = {fromImport: false};
+    expect(importer.findFileUrl('@ds/colors', context)).toEqual(
+      pathToFileURL(p.join(dir, 'ds/_colors.scss')),
+    );
+    expect(importer.findFileUrl('@ds/button', context)).toEqual(
+      pathToFileURL(p.join(dir, 'ds/button/_index.scss')),
+    );
+    expect(importer.findFileUrl('other', context)).toBeNull();
+  });
+
+  it('prefers exact and more specific patterns', () => {
+    const importer = new AliasImporter({
+      paths: {'*': 'nowhere/*', '@ds/*': 'ds/*', '@ds/theme': 'theme'},
+      baseDir: dir,
+    });
+    const context = {fromImport: false};
+    expect(importer.findFileUrl('@ds/theme', context)).toEqual(
+      pathToFileURL(p.join(dir, 'theme.scss')),
+    );
+    expect(importer.findFileUrl('@ds/colors', context)).toEqual(
+      pathToFileURL(p.join(dir, 'ds/_colors.scss')),
+    );
+  });
+
+  it('reads paths from a tsconfig file', () => {
+    fs.writeFileSync(
+      p.join(dir, 'tsconfig.json'),
+      `{
+        // Comments and trailing commas are allowed.
+        "compilerOptions": {
+          "baseUrl": "ds",
+          "paths": {"@ds/*": ["*"],},
+        },
+      }`,
+    );
+    const result = compileString('@use "@ds/colors"', {
+      importers: [new AliasImporter({tsconfig: p.join(dir, 'tsconfig.json')})],
+    });
+    expect(result.loadedUrls).toContainEqual(
+      pathToFileURL(p.join(dir, 'ds/_colors.scss')),
+    );
+  });
+
+  it('lists the files it checked', () => {
+    const importer = new AliasImporter({
+      paths: {'@ds/*': 'ds/*'},
+      baseDir: dir,
+    });
+    expect(() =>
+      importer.findFileUrl('@ds/missing', {fromImport: false}),
+    ).toThrow(
+      'Can\'t find stylesheet for alias "@ds/missing". Checked:\n' +
+        ['_missing.sass', 'missing.sass', '_missing.scss', 'missing.scss']
+          .concat(['_missing.css', 'missing.css'])
+          .map(file => `  ${p.join(dir, 'ds', file)}`)
+          .join('\n'),
+    );
+  });
+
+  it('rejects patterns with multiple wildcards', () => {
+    expect(() => new AliasImporter({paths: {'a/*/*': 'b'}})).toThrow(
+      'Invalid alias "a/*/*": may contain at most one "*".',
+    );
+  });
+});
@@ -2,13 +2,23 @@
 // MIT-style license that can be found in the LICENSE file or at
 // https://opensource.org/licenses/MIT.
 
+import * as fs from 'fs';
 import {createRequire} from 'module';
 import * as p from 'path';
-import {URL} from 'url';
+import {URL, pathToFileURL} from 'url';
 import {inspect} from 'util';
 import {create} from '@bufbuild/protobuf';
 
 import {CanonicalizeContext} from './canonicalize-context';
+import {HostModule, HostModuleImporter} from './host-modules';
+import {ImporterCache} from './importer-cache';
+import {HostImporterResult, InputSourceMaps} from './input-source-maps';
+import {resolvePath} from './legacy/resolve-path';
+import {
+  ImporterMiddleware,
+  ImporterMiddlewareChain,
+  loadPathImporter,
+} from './importer-middleware';
 import * as utils from './utils';
 import {FileImporter, Importer, Options} from './vendor/sass';
 import * as proto from './vendor/embedded_sass_pb';
@@ -40,6 +50,200 @@ export class NodePackageImporter {
   }
 }
 
+/** Options for `AliasImporter`. */
+export interface AliasImporterOptions {
+  /**
+   * A map from URL patterns to the paths they load, in the same format as
+   * `compilerOptions.paths` in a `tsconfig.json` file.
+   *
+   * Each pattern and path may contain at most one `*`, which matches any text
+   * and is replaced by that text in the path. When several patterns match a
+   * URL, an exact pattern is used before a wildcard one, and otherwise the
+   * pattern with the longest text before its `*` is used. A pattern's paths
+   * are tried in order.
+   */
+  paths?: Record<string, string | string[]>;
+
+  /**
+   * The directory that relative paths in `paths` are resolved against.
+   *
+   * Defaults to the current working directory.
+   */
+  baseDir?: string;
+
+  /**
+   * The path to a `tsconfig.json` or `jsconfig.json` file whose
+   * `compilerOptions.paths` are added to `paths`. Its paths are resolved
+   * against its `compilerOptions.baseUrl` if it has one, and against the
+   * file's directory otherwise.
+   *
+   * Mappings in `paths` take precedence over those in this file for the same
+   * pattern. The file's `extends` field isn't followed.
+   */
+  tsconfig?: string;
+}
+
+/** A single pattern in an `AliasImporter`. */
+interface Alias {
+  /** The text before the pattern's `*`, or the whole pattern if it has none. */
+  prefix: string;
+
+  /** The text after the pattern's `*`, or `null` if it has no `*`. */
+  suffix: string | null;
+
+  /** The absolute paths the pattern maps to. */
+  targets: string[];
+}
+
+/**
+ * A file importer that maps URLs to paths on disk using aliases like
+ * `@ds/*`, in the same format as TypeScript's `compilerOptions.paths`.
+ *
+ * Mapped paths are resolved the same way Sass resolves paths on disk, filling
+ * in extensions, partials, index files, and import-only files. URLs that don't
+ * match any alias are left to other importers, but a URL that matches an alias
+ * and doesn't resolve to a file is an error that lists every file that was
+ * checked.
+ */
+export class AliasImporter implements FileImporter<'sync'> {
+  /** The aliases in the order they take precedence. */
+  private readonly aliases: Alias[] = [];
+
+  constructor(options: AliasImporterOptions) {
+    if (options.paths) {
+      this.addAliases(options.paths, p.resolve(options.baseDir ?? '.'));
+    }
+
+    if (options.tsconfig) {
+      const path = p.resolve(options.tsconfig);
+      const config = parseJsonWithComments(fs.readFileSync(path, 'utf8')) as {
+        compilerOptions?: {baseUrl?: string; paths?: Record<string, string[]>};
+      };
+      const compilerOptions = config?.compilerOptions ?? {};
+      if (compilerOptions.paths) {
+        this.addAliases(
+          compilerOptions.paths,
+          p.resolve(p.dirname(path), compilerOptions.baseUrl ?? '.'),
+        );
+      }
+    }
+  }
+
+  findFileUrl(url: string, context: {fromImport: boolean}): URL | null {
+    const match = this.match(url);
+    if (!match) return null;
+
+    const [alias, wildcard] = match;
+    const checked: string[] = [];
+    for (const target of alias.targets) {
+      const resolved = resolvePath(
+        target.replace('*', wildcard),
+        context.fromImport,
+        checked,
+      );
+      if (resolved) return pathToFileURL(resolved);
+    }
+
+    throw new Error(
+      `Can't find stylesheet for alias "${url}". Checked:\n` +
+        checked.map(path => '  ' + path).join('\n'),
+    );
+  }
+
+  /** Adds the aliases in `paths`, resolving their targets against `base`. */
+  private addAliases(
+    paths: Record<string, string | string[]>,
+    base: string,
+  ): void {
+    for (const [pattern, targets] of Object.entries(paths)) {
+      if (this.aliases.some(alias => aliasPattern(alias) === pattern)) {
+        continue;
+      }
+
+      const targetList = typeof targets === 'string' ? [targets] : targets;
+      for (const string of [pattern, ...targetList]) {
+        if (string.indexOf('*') !== string.lastIndexOf('*')) {
+          throw new Error(
+            `Invalid alias "${string}": may contain at most one "*".`,
+          );
+        }
+      }
+
+      const star = pattern.indexOf('*');
+      this.aliases.push({
+        prefix: star === -1 ? pattern : pattern.substring(0, star),
+        suffix: star === -1 ? null : pattern.substring(star + 1),
+        targets: targetList.map(target => p.resolve(base, target)),
+      });
+    }
+  }
+
+  /**
+   * Returns the alias that `url` should use along with the text its `*`
+   * matched, or `null` if no alias matches.
+   */
+  private match(url: string): [Alias, string] | null {
+    let best: [Alias, string] | null = null;
+    for (const alias of this.aliases) {
+      if (alias.suffix === null) {
+        if (alias.prefix === url) return [alias, ''];
+        continue;
+      }
+
+      if (
+        url.length >= alias.prefix.length + alias.suffix.length &&
+        url.startsWith(alias.prefix) &&
+        url.endsWith(alias.suffix) &&
+        (!best || alias.prefix.length > best[0].prefix.length)
+      ) {
+        best = [
+          alias,
+          url.substring(alias.prefix.length, url.length - alias.suffix.length),
+        ];
+      }
+    }
+    return best;
+  }
+}
+
+/** Returns the pattern that `alias` was created from. */
+function aliasPattern(alias: Alias): string {
+  return alias.suffix === null
+    ? alias.prefix
+    : `${alias.prefix}*${alias.suffix}`;
+}
+
+/**
+ * Parses `text` as JSON that may contain comments and trailing commas, as
+ * `tsconfig.json` files may.
+ */
+function parseJsonWithComments(text: string): unknown {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+      result += text.substring(start, i + 1);
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+      result += ' ';
+    } else if (char === '}' || char === ']') {
+      // Drop any trailing comma before the closing bracket.
+      result = result.replace(/,\s*$/, '') + char;
+    } else {
+      result += char;
+    }
+  }
+  return JSON.parse(result);
+}
+
 /**
  * A registry of importers defined in the host that can be invoked by the
  * compiler.
@@ -57,8 +261,37 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
   /** The next ID to use for an importer. */
   private id = 0;
 
-  constructor(options?: Options<sync>) {
-    this.importers = (options?.importers ?? [])
+  /** The cache for importer results, if one was passed. */
+  private readonly cache?: ImporterCache;
+
+  /** The source maps for the stylesheets that importers generated. */
+  readonly inputSourceMaps = new InputSourceMaps();
+
+  /** The middleware that wraps every importer call. */
+  private readonly middleware: ImporterMiddlewareChain<sync>;
+
+  constructor(
+    options?: Options<sync> & {
+      importerCache?: ImporterCache;
+      importerMiddleware?: ImporterMiddleware<sync>[];
+      modules?: Record<string, HostModule<sync>>;
+    },
+  ) {
+    // Cached results would bypass the middleware, so the two can't be combined.
+    if (options?.importerCache && options.importerMiddleware?.length) {
+      throw new Error(
+        "options.importerCache can't be used with options.importerMiddleware",
+      );
+    }
+
+    this.cache = options?.importerCache;
+    this.middleware = new ImporterMiddlewareChain(
+      options?.importerMiddleware ?? [],
+    );
+    this.importers = [
+      ...(options?.modules ? [new HostModuleImporter(options.modules)] : []),
+      ...(options?.importers ?? []),
+    ]
       .map(importer =>
         this.register(
           importer as Importer<sync> | FileImporter<sync> | NodePackageImporter,
@@ -66,9 +299,13 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
       )
       .concat(
         (options?.loadPaths ?? []).map(path =>
-          create(proto.InboundMessage_CompileRequest_ImporterSchema, {
-            importer: {case: 'path', value: p.resolve(path)},
-          }),
+          // Load paths are resolved by the compiler unless middleware needs to
+          // see their loads.
+          this.middleware.isEmpty
+            ? create(proto.InboundMessage_CompileRequest_ImporterSchema, {
+                importer: {case: 'path', value: p.resolve(path)},
+              })
+            : this.register(loadPathImporter(path)),
         ),
       );
   }
@@ -111,6 +348,21 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
     return message;
   }
 
+  /**
+   * Returns the cache for `importer`'s results, if they should be cached.
+   *
+   * Host module importers are created for each compilation and load whatever
+   * that compilation's modules contain, so their results are never cached.
+   */
+  private cacheFor(importer: Importer<sync>): ImporterCache | undefined {
+    return importer instanceof HostModuleImporter ? undefined : this.cache;
+  }
+
+  /** Returns the importer or file importer registered with `id`, if any. */
+  getImporter(id: number): Importer<sync> | FileImporter<sync> | undefined {
+    return this.importersById.get(id) ?? this.fileImportersById.get(id);
+  }
+
   /** Handles a canonicalization request. */
   canonicalize(
     request: proto.OutboundMessage_CanonicalizeRequest,
@@ -120,6 +372,18 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
       throw utils.compilerError('Unknown CanonicalizeRequest.importer_id');
     }
 
+    const cache = this.cacheFor(importer);
+    const cached = cache?.getResolution('canonicalize', importer, request);
+    if (cached) {
+      return create(proto.InboundMessage_CanonicalizeResponseSchema, {
+        result:
+          cached.url === null
+            ? {case: undefined}
+            : {case: 'url', value: cached.url},
+        containingUrlUnused: cached.containingUrlUnused,
+      });
+    }
+
     const canonicalizeContext = new CanonicalizeContext(
       request.containingUrl ? new URL(request.containingUrl) : null,
       request.fromImport,
@@ -128,15 +392,26 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
     return catchOr(
       () => {
         return thenOr(
-          importer.canonicalize(request.url, canonicalizeContext),
-          url =>
-            create(proto.InboundMessage_CanonicalizeResponseSchema, {
-              result:
-                url === null
-                  ? {case: undefined}
-                  : {case: 'url', value: url.toString()},
-              containingUrlUnused: !canonicalizeContext.containingUrlAccessed,
-            }),
+          this.middleware.canonicalize(
+            importer,
+            request.url,
+            canonicalizeContext,
+            url => importer.canonicalize(url, canonicalizeContext),
+          ),
+          url => {
+            const response = create(
+              proto.InboundMessage_CanonicalizeResponseSchema,
+              {
+                result:
+                  url === null
+                    ? {case: undefined}
+                    : {case: 'url', value: url.toString()},
+                containingUrlUnused: !canonicalizeContext.containingUrlAccessed,
+              },
+            );
+            cache?.setResolution('canonicalize', importer, request, response);
+            return response;
+          },
         );
       },
       error =>
@@ -155,11 +430,32 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
       throw utils.compilerError('Unknown ImportRequest.importer_id');
     }
 
+    const cache = this.cacheFor(importer);
+    const cached = cache?.getLoad(importer, request.url);
+    if (cached === null) {
+      return create(proto.InboundMessage_ImportResponseSchema, {});
+    } else if (cached) {
+      const {sourceMap, ...success} = cached;
+      if (sourceMap) this.inputSourceMaps.add(success.sourceMapUrl, sourceMap);
+      return create(proto.InboundMessage_ImportResponseSchema, {
+        result: {case: 'success', value: success},
+      });
+    }
+
     return catchOr(
       () => {
-        return thenOr(importer.load(new URL(request.url)), result => {
-          if (!result)
-            return create(proto.InboundMessage_ImportResponseSchema, {});
+        const load = this.middleware.load(importer, new URL(request.url), url =>
+          importer.load(url),
+        );
+        return thenOr(load, result => {
+          if (!result) {
+            const response = create(
+              proto.InboundMessage_ImportResponseSchema,
+              {},
+            );
+            cache?.setLoad(importer, request.url, response);
+            return response;
+          }
 
           if (typeof result.contents !== 'string') {
             throw Error(
@@ -176,16 +472,28 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
             );
           }
 
-          return create(proto.InboundMessage_ImportResponseSchema, {
+          // A stylesheet without a source map URL appears in source maps as a
+          // `data:` URL, so give stylesheets that have input source maps their
+          // canonical URL instead to make them identifiable.
+          const sourceMap = (result as HostImporterResult).sourceMap;
+          let sourceMapUrl = result.sourceMapUrl?.toString();
+          if (sourceMap) {
+            sourceMapUrl ??= request.url;
+            this.inputSourceMaps.add(sourceMapUrl, sourceMap);
+          }
+
+          const response = create(proto.InboundMessage_ImportResponseSchema, {
             result: {
               case: 'success',
               value: {
                 contents: result.contents,
                 syntax: utils.protofySyntax(result.syntax),
-                sourceMapUrl: result.sourceMapUrl?.toString() ?? '',
+                sourceMapUrl: sourceMapUrl ?? '',
               },
             },
           });
+          cache?.setLoad(importer, request.url, response, sourceMap);
+          return response;
         });
       },
       error =>
@@ -204,6 +512,17 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
       throw utils.compilerError('Unknown FileImportRequest.importer_id');
     }
 
+    const cached = this.cache?.getResolution('findFileUrl', importer, request);
+    if (cached) {
+      return create(proto.InboundMessage_FileImportResponseSchema, {
+        result:
+          cached.url === null
+            ? {case: undefined}
+            : {case: 'fileUrl', value: cached.url},
+        containingUrlUnused: cached.containingUrlUnused,
+      });
+    }
+
     const canonicalizeContext = new CanonicalizeContext(
       request.containingUrl ? new URL(request.containingUrl) : null,
       request.fromImport,
@@ -212,12 +531,28 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
     return catchOr(
       () => {
         return thenOr(
-          importer.findFileUrl(request.url, canonicalizeContext),
+          this.middleware.canonicalize(
+            importer,
+            request.url,
+            canonicalizeContext,
+            url => importer.findFileUrl(url, canonicalizeContext),
+          ),
           url => {
             if (!url) {
-              return create(proto.InboundMessage_FileImportResponseSchema, {
-                containingUrlUnused: !canonicalizeContext.containingUrlAccessed,
-              });
+              const response = create(
+                proto.InboundMessage_FileImportResponseSchema,
+                {
+                  containingUrlUnused:
+                    !canonicalizeContext.containingUrlAccessed,
+                },
+              );
+              this.cache?.setResolution(
+                'findFileUrl',
+                importer,
+                request,
+                response,
+              );
+              return response;
             }
             if (url.protocol !== 'file:') {
               throw (
@@ -225,10 +560,20 @@ export class ImporterRegistry<sync extends 'sync' | 'async'> {
                 +`"${url}" for URL "${request.url}".`
               );
             }
-            return create(proto.InboundMessage_FileImportResponseSchema, {
-              result: {case: 'fileUrl', value: url.toString()},
-              containingUrlUnused: !canonicalizeContext.containingUrlAccessed,
-            });
+            const response = create(
+              proto.InboundMessage_FileImportResponseSchema,
+              {
+                result: {case: 'fileUrl', value: url.toString()},
+                containingUrlUnused: !canonicalizeContext.containingUrlAccessed,
+              },
+            );
+            this.cache?.setResolution(
+              'findFileUrl',
+              importer,
+              request,
+              response,
+            );
+            return response;
           },
         );
       },
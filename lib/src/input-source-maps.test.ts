@@ -0,0 +1,42 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {SourceMapConsumer, SourceMapGenerator} from 'source-map-js';
+
+import {compileString} from './compile';
+
+describe('input source maps', () => {
+  it('are composed with the compilation source map', () => {
+    const generator = new SourceMapGenerator();
+    for (const column of [0, 3]) {
+      generator.addMapping({
+        generated: {line: 1, column},
+        original: {line: 5, column: 2},
+        source: 'tokens.json',
+      });
+    }
+    generator.setSourceContent('tokens.json', '{"a": {"b": "c"}}');
+
+    const result = compileString('@use "u:/theme.scss"', {
+      sourceMap: true,
+      importers: [
+        {
+          canonicalize: url => new URL(url),
+          load: () => ({
+            contents: 'a {b: c}',
+            syntax: 'scss',
+            sourceMap: generator.toJSON(),
+          }),
+        },
+      ],
+    });
+
+    const map = result.sourceMap!;
+    expect(map.sources).toEqual(['u:/tokens.json']);
+    expect(map.sourcesContent).toEqual(['{"a": {"b": "c"}}']);
+    expect(
+      new SourceMapConsumer(map).originalPositionFor({line: 1, column: 0}),
+    ).toMatchObject({source: 'u:/tokens.json', line: 5, column: 2});
+  });
+});
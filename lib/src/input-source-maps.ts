@@ -0,0 +1,82 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {
+  RawSourceMap,
+  SourceMapConsumer,
+  SourceMapGenerator,
+} from 'source-map-js';
+
+import {ImporterResult} from './vendor/sass';
+
+/**
+ * The JS API's importer result along with the extra information this package
+ * accepts from importers.
+ */
+export interface HostImporterResult extends ImporterResult {
+  /**
+   * A source map from `contents` to the files they were generated from, for an
+   * importer that transforms its input, such as by generating SCSS from design
+   * tokens.
+   *
+   * If the compilation produces a source map, it's composed with this map so
+   * that it points at the files `contents` was generated from rather than at
+   * `contents` itself. Relative URLs in this map's `sources` are resolved
+   * relative to the stylesheet's URL.
+   */
+  sourceMap?: RawSourceMap;
+}
+
+/** The input source maps returned by importers during a compilation. */
+export class InputSourceMaps {
+  /**
+   * A map from the URLs that stylesheets appear as in the compilation's source
+   * map to their input source maps.
+   */
+  private readonly maps = new Map<string, RawSourceMap>();
+
+  /** Records that the stylesheet at `url` was generated according to `map`. */
+  add(url: string, map: RawSourceMap): void {
+    const root = map.sourceRoot
+      ? resolveUrl(
+          map.sourceRoot.endsWith('/') ? map.sourceRoot : `${map.sourceRoot}/`,
+          url,
+        )
+      : url;
+    this.maps.set(url, {
+      ...map,
+      sourceRoot: undefined,
+      sources: map.sources.map(source => resolveUrl(source, root)),
+    });
+  }
+
+  /**
+   * Returns `sourceMap` with every mapping into a stylesheet that has an input
+   * source map redirected to the position it was generated from.
+   */
+  compose(sourceMap: RawSourceMap): RawSourceMap {
+    if (this.maps.size === 0) return sourceMap;
+
+    const generator = SourceMapGenerator.fromSourceMap(
+      new SourceMapConsumer(sourceMap),
+    );
+    for (const [url, map] of this.maps) {
+      if (!sourceMap.sources.includes(url)) continue;
+      generator.applySourceMap(new SourceMapConsumer(map), url);
+    }
+    return generator.toJSON();
+  }
+}
+
+/**
+ * Resolves `url` relative to `base`, or returns it as-is if `base` can't have
+ * relative URLs resolved against it.
+ */
+function resolveUrl(url: string, base: string): string {
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return url;
+  }
+}
@@ -15,6 +15,7 @@ import {
   compileStringAsync,
 } from '../compile';
 import {deprecations, warnForHostSideDeprecation} from '../deprecations';
+import {serializeSourceMap} from '../source-map-output';
 import {
   SyncBoolean,
   fileUrlToPathCrossPlatform,
@@ -276,57 +277,47 @@ function newLegacyResult(
   let css = result.css;
   let sourceMapBytes: Buffer | undefined;
   if (result.sourceMap) {
-    const sourceMap = result.sourceMap;
-    sourceMap.sourceRoot = options.sourceMapRoot ?? '';
-
     const sourceMapPath =
       typeof options.sourceMap === 'string'
         ? (options.sourceMap as string)
         : options.outFile + '.map';
     const sourceMapDir = p.dirname(sourceMapPath);
 
+    let file: string;
     if (options.outFile) {
-      sourceMap.file = pathToUrlString(
-        p.relative(sourceMapDir, options.outFile),
-      );
+      file = pathToUrlString(p.relative(sourceMapDir, options.outFile));
     } else if (options.file) {
-      sourceMap.file = pathToUrlString(withoutExtension(options.file) + '.css');
+      file = pathToUrlString(withoutExtension(options.file) + '.css');
     } else {
-      sourceMap.file = 'stdin.css';
+      file = 'stdin.css';
     }
 
-    sourceMap.sources = sourceMap.sources
-      .filter(source => !source.startsWith(endOfLoadProtocol))
-      .map(source => {
-        source = removeLegacyImporter(source);
-        if (source.startsWith('file://')) {
-          return pathToUrlString(
-            p.relative(sourceMapDir, fileUrlToPathCrossPlatform(source)),
-          );
-        } else if (source.startsWith('data:')) {
-          return 'stdin';
-        } else {
-          return source;
-        }
-      });
-
-    sourceMapBytes = Buffer.from(JSON.stringify(sourceMap));
-
-    if (!options.omitSourceMapUrl) {
-      let url;
-      if (options.sourceMapEmbed) {
-        url = `data:application/json;base64,${sourceMapBytes.toString(
-          'base64',
-        )}`;
-      } else if (options.outFile) {
-        url = pathToUrlString(
-          p.relative(p.dirname(options.outFile), sourceMapPath),
-        );
-      } else {
-        url = pathToUrlString(sourceMapPath);
-      }
-      css += `\n\n/*# sourceMappingURL=${url} */`;
-    }
+    const url = options.outFile
+      ? pathToUrlString(p.relative(p.dirname(options.outFile), sourceMapPath))
+      : pathToUrlString(sourceMapPath);
+
+    const serialized = serializeSourceMap(
+      css,
+      {
+        ...result.sourceMap,
+        sources: result.sourceMap.sources
+          .filter(source => !source.startsWith(endOfLoadProtocol))
+          .map(source => {
+            source = removeLegacyImporter(source);
+            return source.startsWith('data:') ? 'stdin' : source;
+          }),
+      },
+      {
+        file,
+        sourceRoot: options.sourceMapRoot ?? '',
+        relativeTo: sourceMapDir,
+        ...(options.omitSourceMapUrl
+          ? {}
+          : {embed: options.sourceMapEmbed, url}),
+      },
+    );
+    css = serialized.css;
+    sourceMapBytes = Buffer.from(serialized.serializedSourceMap);
   }
 
   return {
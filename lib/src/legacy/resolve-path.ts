@@ -5,54 +5,116 @@
 import * as fs from 'fs';
 import * as p from 'path';
 
+/** A file system that `resolvePath()` can look for files in. */
+export interface ResolvableFileSystem {
+  /** The path functions to use for paths in this file system. */
+  readonly path: typeof p;
+
+  /** Returns whether or not a file (not a directory) exists at `path`. */
+  fileExists(path: string): boolean;
+
+  /** Returns whether or not a directory (not a file) exists at `path`. */
+  dirExists(path: string): boolean;
+}
+
+/** The physical file system. */
+const diskFileSystem: ResolvableFileSystem = {path: p, fileExists, dirExists};
+
 /**
  * Resolves a path using the same logic as the filesystem importer.
  *
  * This tries to fill in extensions and partial prefixes and check for a
  * directory default. If no file can be found, it returns `null`.
+ *
+ * If `checked` is passed, every file path this looks for is added to it. Paths
+ * are looked up on disk unless another `fileSystem` is passed.
  */
-export function resolvePath(path: string, fromImport: boolean): string | null {
-  const extension = p.extname(path);
+export function resolvePath(
+  path: string,
+  fromImport: boolean,
+  checked?: string[],
+  fileSystem = diskFileSystem,
+): string | null {
+  const extension = fileSystem.path.extname(path);
   if (extension === '.sass' || extension === '.scss' || extension === '.css') {
+    const withoutExtension = path.substring(0, path.length - extension.length);
     return (
       (fromImport
-        ? exactlyOne(tryPath(`${withoutExtension(path)}.import${extension}`))
-        : null) ?? exactlyOne(tryPath(path))
+        ? exactlyOne(
+            tryPath(
+              `${withoutExtension}.import${extension}`,
+              fileSystem,
+              checked,
+            ),
+          )
+        : null) ?? exactlyOne(tryPath(path, fileSystem, checked))
     );
   }
 
   return (
-    (fromImport ? exactlyOne(tryPathWithExtensions(`${path}.import`)) : null) ??
-    exactlyOne(tryPathWithExtensions(path)) ??
-    tryPathAsDirectory(path, fromImport)
+    (fromImport
+      ? exactlyOne(tryPathWithExtensions(`${path}.import`, fileSystem, checked))
+      : null) ??
+    exactlyOne(tryPathWithExtensions(path, fileSystem, checked)) ??
+    tryPathAsDirectory(path, fromImport, fileSystem, checked)
   );
 }
 
 // Like `tryPath`, but checks `.sass`, `.scss`, and `.css` extensions.
-function tryPathWithExtensions(path: string): string[] {
-  const result = [...tryPath(path + '.sass'), ...tryPath(path + '.scss')];
-  return result.length > 0 ? result : tryPath(path + '.css');
+function tryPathWithExtensions(
+  path: string,
+  fileSystem: ResolvableFileSystem,
+  checked?: string[],
+): string[] {
+  const result = [
+    ...tryPath(path + '.sass', fileSystem, checked),
+    ...tryPath(path + '.scss', fileSystem, checked),
+  ];
+  return result.length > 0
+    ? result
+    : tryPath(path + '.css', fileSystem, checked);
 }
 
 // Returns the `path` and/or the partial with the same name, if either or both
 // exists. If neither exists, returns an empty list.
-function tryPath(path: string): string[] {
-  const partial = p.join(p.dirname(path), `_${p.basename(path)}`);
+function tryPath(
+  path: string,
+  fileSystem: ResolvableFileSystem,
+  checked?: string[],
+): string[] {
+  const {path: paths} = fileSystem;
+  const partial = paths.join(paths.dirname(path), `_${paths.basename(path)}`);
+  checked?.push(partial, path);
   const result: string[] = [];
-  if (fileExists(partial)) result.push(partial);
-  if (fileExists(path)) result.push(path);
+  if (fileSystem.fileExists(partial)) result.push(partial);
+  if (fileSystem.fileExists(path)) result.push(path);
   return result;
 }
 
 // Returns the resolved index file for `path` if `path` is a directory and the
 // index file exists. Otherwise, returns `null`.
-function tryPathAsDirectory(path: string, fromImport: boolean): string | null {
-  if (!dirExists(path)) return null;
+function tryPathAsDirectory(
+  path: string,
+  fromImport: boolean,
+  fileSystem: ResolvableFileSystem,
+  checked?: string[],
+): string | null {
+  if (!fileSystem.dirExists(path)) return null;
 
+  const {path: paths} = fileSystem;
   return (
     (fromImport
-      ? exactlyOne(tryPathWithExtensions(p.join(path, 'index.import')))
-      : null) ?? exactlyOne(tryPathWithExtensions(p.join(path, 'index')))
+      ? exactlyOne(
+          tryPathWithExtensions(
+            paths.join(path, 'index.import'),
+            fileSystem,
+            checked,
+          ),
+        )
+      : null) ??
+    exactlyOne(
+      tryPathWithExtensions(paths.join(path, 'index'), fileSystem, checked),
+    )
   );
 }
 
@@ -99,9 +161,3 @@ function dirExists(path: string): boolean {
     throw error;
   }
 }
-
-// Returns `path` without its file extension.
-function withoutExtension(path: string): string {
-  const extension = p.extname(path);
-  return path.substring(0, path.length - extension.length);
-}
@@ -0,0 +1,67 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {compileString} from './compile';
+import {Exception} from './exception';
+import {Logger} from './logger';
+
+describe('Logger', () => {
+  let output: string;
+  const stream = {write: (chunk: string) => (output += chunk)};
+
+  beforeEach(() => {
+    output = '';
+  });
+
+  /** Compiles `source` with `logger`, reporting its error if it fails. */
+  function compileWith(
+    source: string,
+    logger: ReturnType<typeof Logger.json>,
+  ): void {
+    try {
+      compileString(source, {logger, url: new URL('file:///style.scss')});
+    } catch (error) {
+      logger.error(error as Exception);
+    }
+    logger.end();
+  }
+
+  it('json writes a line per message', () => {
+    compileWith('@warn "a";\n@debug "b";\n@error "c"', Logger.json(stream));
+    const reports = output
+      .trimEnd()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(reports).toMatchObject([
+      {severity: 'warning', message: 'a', stack: expect.any(String)},
+      {
+        severity: 'debug',
+        message: 'b',
+        location: {
+          url: 'file:///style.scss',
+          startLine: 2,
+          startColumn: 1,
+          endLine: 2,
+          endColumn: 11,
+        },
+      },
+      {severity: 'error', message: '"c"', location: {startLine: 3}},
+    ]);
+  });
+
+  it('sarif writes a log when it ends', () => {
+    const logger = Logger.sarif(stream);
+    compileString('a {b: (1/2)}', {logger});
+    expect(output).toBe('');
+
+    logger.end();
+    const log = JSON.parse(output);
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs[0].tool.driver.rules).toEqual([{id: 'slash-div'}]);
+    expect(log.runs[0].results).toMatchObject([
+      {ruleId: 'slash-div', level: 'warning'},
+    ]);
+    expect(() => logger.end()).toThrow('The report has already ended');
+  });
+});
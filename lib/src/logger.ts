@@ -2,6 +2,202 @@
 // MIT-style license that can be found in the LICENSE file or at
 // https://opensource.org/licenses/MIT.
 
+import {
+  Exception,
+  Logger as LoggerInterface,
+  LoggerWarnOptions,
+  SourceSpan,
+} from './vendor/sass';
+
+/** A destination for a report, such as `process.stdout` or a file stream. */
+export interface ReportStream {
+  write(chunk: string): unknown;
+}
+
+/**
+ * A logger that writes warnings, debug messages, and compilation errors to a
+ * stream in a machine-readable format.
+ */
+export interface ReportingLogger extends LoggerInterface {
+  warn(message: string, options: LoggerWarnOptions): void;
+
+  debug(message: string, options: {span: SourceSpan}): void;
+
+  /**
+   * Reports `exception`, the error that a compilation failed with. Loggers
+   * aren't told about failed compilations, so this must be called explicitly.
+   */
+  error(exception: Exception): void;
+
+  /**
+   * Finishes the report. Nothing may be reported afterwards.
+   *
+   * Some formats can only be written once the report is finished, so this
+   * must be called for anything to be written.
+   */
+  end(): void;
+}
+
 export const Logger = {
   silent: {warn() {}, debug() {}},
+
+  /**
+   * Returns a logger that writes each message to `stream` as a line of JSON.
+   *
+   * Each line is an object with a `severity` (`"warning"`, `"deprecation"`,
+   * `"debug"`, or `"error"`), a `message`, the `deprecationId` for
+   * deprecations, the Sass `stack` if there is one, and the `location` of the
+   * message's span if it has a URL. Locations have a `url` and one-based
+   * `startLine`, `startColumn`, `endLine`, and `endColumn` fields, where
+   * `endColumn` is exclusive.
+   */
+  json(stream: ReportStream): ReportingLogger {
+    return new Reporter(report => stream.write(JSON.stringify(report) + '\n'));
+  },
+
+  /**
+   * Returns a logger that writes a [SARIF 2.1.0] log of its messages to
+   * `stream` when its `end()` method is called.
+   *
+   * [SARIF 2.1.0]: https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+   *
+   * Deprecation warnings use their deprecation IDs as rule IDs, while other
+   * messages use `"warning"`, `"debug"`, or `"error"`.
+   */
+  sarif(stream: ReportStream): ReportingLogger {
+    const results: object[] = [];
+    const rules = new Set<string>();
+    return new Reporter(
+      report => {
+        const ruleId = report.deprecationId ?? report.severity;
+        rules.add(ruleId);
+        results.push({
+          ruleId,
+          level:
+            report.severity === 'error'
+              ? 'error'
+              : report.severity === 'debug'
+                ? 'note'
+                : 'warning',
+          message: {text: report.message},
+          ...(report.location
+            ? {
+                locations: [
+                  {
+                    physicalLocation: {
+                      artifactLocation: {uri: report.location.url},
+                      region: {
+                        startLine: report.location.startLine,
+                        startColumn: report.location.startColumn,
+                        endLine: report.location.endLine,
+                        endColumn: report.location.endColumn,
+                      },
+                    },
+                  },
+                ],
+              }
+            : {}),
+        });
+      },
+      () =>
+        stream.write(
+          JSON.stringify({
+            version: '2.1.0',
+            $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+            runs: [
+              {
+                tool: {
+                  driver: {
+                    name: 'sass-embedded',
+                    informationUri: 'https://sass-lang.com',
+                    rules: [...rules].map(id => ({id})),
+                  },
+                },
+                results,
+              },
+            ],
+          }) + '\n',
+        ),
+    );
+  },
 };
+
+/** A single message in a report. */
+interface Report {
+  severity: 'warning' | 'deprecation' | 'debug' | 'error';
+  message: string;
+  deprecationId?: string;
+  stack?: string;
+  location?: {
+    url: string;
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+  };
+}
+
+/** A `ReportingLogger` that converts messages to `Report`s. */
+class Reporter implements ReportingLogger {
+  /** Whether `end()` has been called. */
+  private ended = false;
+
+  constructor(
+    private readonly onReport: (report: Report) => void,
+    private readonly onEnd?: () => void,
+  ) {}
+
+  warn(message: string, options: LoggerWarnOptions): void {
+    this.report({
+      severity: options.deprecation ? 'deprecation' : 'warning',
+      message,
+      ...(options.deprecation
+        ? {deprecationId: options.deprecationType.id}
+        : {}),
+      ...(options.stack ? {stack: options.stack} : {}),
+      ...location(options.span),
+    });
+  }
+
+  debug(message: string, options: {span: SourceSpan}): void {
+    this.report({severity: 'debug', message, ...location(options.span)});
+  }
+
+  error(exception: Exception): void {
+    this.report({
+      severity: 'error',
+      message: exception.sassMessage,
+      ...(exception.sassStack ? {stack: exception.sassStack} : {}),
+      ...location(exception.span),
+    });
+  }
+
+  end(): void {
+    this.throwIfEnded();
+    this.ended = true;
+    this.onEnd?.();
+  }
+
+  private report(report: Report): void {
+    this.throwIfEnded();
+    this.onReport(report);
+  }
+
+  private throwIfEnded(): void {
+    if (this.ended) throw new Error('The report has already ended');
+  }
+}
+
+/** Returns the `location` field for a report about `span`, if it has a URL. */
+function location(span: SourceSpan | undefined): Pick<Report, 'location'> {
+  if (!span?.url) return {};
+  return {
+    location: {
+      url: span.url.toString(),
+      startLine: span.start.line + 1,
+      startColumn: span.start.column + 1,
+      endLine: span.end.line + 1,
+      endColumn: span.end.column + 1,
+    },
+  };
+}
@@ -0,0 +1,76 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {compileString} from './compile';
+import {MemoryImporter} from './memory-importer';
+
+describe('MemoryImporter', () => {
+  it('loads relative URLs, partials, and index files', () => {
+    const importer = new MemoryImporter({
+      'main.scss': '@use "theme"; a {b: theme.$color}',
+      theme: {
+        '_index.scss': '@forward "colors"',
+        '_colors.sass': '$color: red',
+      },
+    });
+    const result = compileString('@use "main"', {importers: [importer]});
+    expect(result.css).toBe('a {\n  b: red;\n}');
+    expect(result.loadedUrls.map(url => url.toString())).toEqual(
+      expect.arrayContaining([
+        'memory:/main.scss',
+        'memory:/theme/_index.scss',
+        'memory:/theme/_colors.sass',
+      ]),
+    );
+  });
+
+  it('loads canonical URLs with a custom scheme', () => {
+    const importer = new MemoryImporter(new Map([['/a/b.css', 'c {d: e}']]), {
+      scheme: 'vfs',
+    });
+    const result = compileString('@use "vfs:/a/b"', {importers: [importer]});
+    expect(result.css).toBe('c {\n  d: e;\n}');
+  });
+
+  it('loads URLs with a non-canonical scheme from the root', () => {
+    const importer = new MemoryImporter(
+      {theme: {'_colors.scss': 'a {b: red}'}},
+      {nonCanonicalScheme: 'theme'},
+    );
+    expect(importer.nonCanonicalScheme).toEqual(['theme']);
+    const result = compileString('@use "theme:theme/colors"', {
+      importers: [importer],
+    });
+    expect(result.css).toBe('a {\n  b: red;\n}');
+    expect(result.loadedUrls.map(url => url.toString())).toContain(
+      'memory:/theme/_colors.scss',
+    );
+  });
+
+  it("rejects a non-canonical scheme that's also canonical", () => {
+    expect(
+      () => new MemoryImporter({}, {scheme: 'vfs', nonCanonicalScheme: 'vfs'}),
+    ).toThrow('options.nonCanonicalScheme may not include options.scheme');
+  });
+
+  it('reflects updates between compilations', () => {
+    const importer = new MemoryImporter({'_a.scss': 'a {b: c}'});
+    importer.writeFile('_a.scss', 'a {b: d}');
+    expect(compileString('@use "a"', {importers: [importer]}).css).toBe(
+      'a {\n  b: d;\n}',
+    );
+
+    importer.deleteFile('_a.scss');
+    expect(() => compileString('@use "a"', {importers: [importer]})).toThrow(
+      "Can't find stylesheet to import.",
+    );
+  });
+
+  it('rejects ambiguous URLs', () => {
+    const importer = new MemoryImporter({'_a.scss': '', 'a.scss': ''});
+    expect(() => compileString('@use "a"', {importers: [importer]})).toThrow(
+      "It's not clear which file to import.",
+    );
+  });
+});
@@ -0,0 +1,167 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as p from 'path';
+import {URL} from 'url';
+
+import {ResolvableFileSystem, resolvePath} from './legacy/resolve-path';
+import * as utils from './utils';
+import {CanonicalizeContext, Importer, ImporterResult} from './vendor/sass';
+
+/**
+ * A directory of in-memory files, where each value is either a file's contents
+ * or a nested directory.
+ */
+export interface MemoryDirectory {
+  [name: string]: string | MemoryDirectory;
+}
+
+/** Options for `MemoryImporter`. */
+export interface MemoryImporterOptions {
+  /**
+   * The URL scheme of the importer's canonical URLs. A stylesheet at `/a.scss`
+   * has the canonical URL `<scheme>:/a.scss`.
+   *
+   * Use distinct schemes for importers that are passed to the same
+   * compilation.
+   *
+   * Defaults to `"memory"`.
+   */
+  scheme?: string;
+
+  /**
+   * URL schemes that load stylesheets from this importer without being
+   * canonical, such as `"theme"` for `@use "theme:colors"`. The path after a
+   * non-canonical scheme is resolved relative to the root.
+   *
+   * This may not include `scheme`.
+   */
+  nonCanonicalScheme?: string | string[];
+}
+
+/**
+ * An importer that loads stylesheets from memory rather than from disk.
+ *
+ * Files are addressed by slash-separated paths, which are treated as absolute
+ * from the root of the importer's file system. URLs are resolved the same way
+ * Sass resolves them on disk, filling in extensions, partials, index files,
+ * and import-only files, and each file's syntax is determined by its
+ * extension.
+ *
+ * Relative URLs are resolved relative to the stylesheet that loads them, or
+ * relative to the root for a stylesheet that wasn't loaded by this importer.
+ * Stylesheets can also be loaded by their canonical URLs, as in `@use
+ * "memory:/theme/colors"`.
+ *
+ * Files can be changed between compilations with `writeFile()` and
+ * `deleteFile()`.
+ */
+export class MemoryImporter implements Importer<'sync'> {
+  /** The URL scheme of this importer's canonical URLs. */
+  private readonly scheme: string;
+
+  /** URL schemes that load from this importer without being canonical. */
+  readonly nonCanonicalScheme: string[];
+
+  /** A map from absolute paths to file contents. */
+  private readonly files = new Map<string, string>();
+
+  /** The view of `files` that paths are resolved against. */
+  private readonly fileSystem: ResolvableFileSystem = {
+    path: p.posix,
+    fileExists: path => this.files.has(path),
+    dirExists: path => {
+      const prefix = path.endsWith('/') ? path : `${path}/`;
+      return [...this.files.keys()].some(file => file.startsWith(prefix));
+    },
+  };
+
+  constructor(
+    files: Map<string, string> | MemoryDirectory,
+    options?: MemoryImporterOptions,
+  ) {
+    this.scheme = options?.scheme ?? 'memory';
+    const nonCanonicalScheme = options?.nonCanonicalScheme ?? [];
+    this.nonCanonicalScheme =
+      typeof nonCanonicalScheme === 'string'
+        ? [nonCanonicalScheme]
+        : nonCanonicalScheme;
+    if (this.nonCanonicalScheme.includes(this.scheme)) {
+      throw new Error(
+        'options.nonCanonicalScheme may not include options.scheme',
+      );
+    }
+    if (files instanceof Map) {
+      for (const [path, contents] of files) this.writeFile(path, contents);
+    } else {
+      this.addDirectory('/', files);
+    }
+  }
+
+  /** Sets the contents of the file at `path`, creating it if necessary. */
+  writeFile(path: string, contents: string): void {
+    this.files.set(normalize(path), contents);
+  }
+
+  /** Removes the file at `path`, if it exists. */
+  deleteFile(path: string): void {
+    this.files.delete(normalize(path));
+  }
+
+  canonicalize(url: string, context: CanonicalizeContext): URL | null {
+    let path: string;
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url)?.[1];
+    if (scheme === this.scheme) {
+      path = decodeURIComponent(new URL(url).pathname);
+    } else if (scheme && this.nonCanonicalScheme.includes(scheme)) {
+      path = p.posix.resolve('/', decodeURIComponent(new URL(url).pathname));
+    } else if (scheme !== undefined) {
+      return null;
+    } else {
+      const containingUrl = context.containingUrl;
+      const base =
+        containingUrl?.protocol === `${this.scheme}:`
+          ? p.posix.dirname(decodeURIComponent(containingUrl.pathname))
+          : '/';
+      path = p.posix.resolve(base, decodeURIComponent(url));
+    }
+
+    const resolved = resolvePath(
+      path,
+      context.fromImport,
+      undefined,
+      this.fileSystem,
+    );
+    return resolved === null
+      ? null
+      : new URL(`${this.scheme}:${encodeURI(resolved)}`);
+  }
+
+  load(canonicalUrl: URL): ImporterResult | null {
+    if (canonicalUrl.protocol !== `${this.scheme}:`) return null;
+
+    const path = decodeURIComponent(canonicalUrl.pathname);
+    const contents = this.files.get(path);
+    return contents === undefined
+      ? null
+      : {contents, syntax: utils.syntaxOf(path)};
+  }
+
+  /** Adds the files in `directory`, which is located at `path`. */
+  private addDirectory(path: string, directory: MemoryDirectory): void {
+    for (const [name, entry] of Object.entries(directory)) {
+      const child = p.posix.join(path, name);
+      if (typeof entry === 'string') {
+        this.writeFile(child, entry);
+      } else {
+        this.addDirectory(child, entry);
+      }
+    }
+  }
+}
+
+/** Returns `path` as an absolute, normalized, slash-separated path. */
+function normalize(path: string): string {
+  return p.posix.resolve('/', path.replace(/\\/g, '/'));
+}
@@ -51,6 +51,15 @@ export type OutboundRequest = MessagesOfType<
   OutboundRequestType
 >;
 
+/**
+ * The `message` field of an outbound request, which includes the request's
+ * type.
+ */
+export type OutboundRequestMessage = Extract<
+  OutboundMessage['message'],
+  {case: OutboundRequestType}
+>;
+
 /** The names of inbound messages that are responses to `InboundRequest`s. */
 export type OutboundResponseType = 'compileResponse';
 
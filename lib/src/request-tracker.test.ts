@@ -79,6 +79,17 @@ describe('request tracker', () => {
       );
     });
 
+    it('lists only the requests that are still pending', () => {
+      tracker.add(0, 'importResponse');
+      tracker.add(1, 'canonicalizeResponse');
+      tracker.add(2, 'functionCallResponse');
+      tracker.resolve(1, 'canonicalizeResponse');
+      expect(tracker.pending).toEqual([
+        [0, 'importResponse'],
+        [2, 'functionCallResponse'],
+      ]);
+    });
+
     it('errors if the response type does not match what the request is expecting', () => {
       tracker.add(0, 'importResponse');
       expect(() => tracker.resolve(0, 'fileImportResponse')).toThrow(
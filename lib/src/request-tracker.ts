@@ -25,6 +25,16 @@ export class RequestTracker {
     return this.requests.length;
   }
 
+  /** The IDs and expected response types of all pending requests. */
+  get pending(): Array<[number, InboundResponseType | OutboundResponseType]> {
+    const pending: Array<[number, InboundResponseType | OutboundResponseType]> =
+      [];
+    this.requests.forEach((type, id) => {
+      if (type) pending.push([id, type]);
+    });
+    return pending;
+  }
+
   /**
    * Adds an entry for a pending request with ID `id`. The entry stores the
    * expected response type. Throws an error if the Protocol Error is violated.
@@ -0,0 +1,53 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as p from 'path';
+import {pathToFileURL} from 'url';
+
+import {compileString} from './compile';
+import {prepareSourceMapOutput} from './source-map-output';
+
+describe('sourceMapOutput', () => {
+  const sourceMap = {
+    version: '3',
+    sources: [pathToFileURL(p.resolve('src/style.scss')).toString()],
+    names: [],
+    mappings: 'AAAA',
+  };
+
+  it('writes an external map next to the CSS', () => {
+    const output = prepareSourceMapOutput('a {b: c}', sourceMap, {
+      mode: 'file',
+      outFile: p.resolve('dist/style.css'),
+      sourceRoot: '/root',
+    });
+    expect(output.cssWithSourceMapComment).toBe(
+      'a {b: c}\n\n/*# sourceMappingURL=style.css.map */',
+    );
+    expect(JSON.parse(output.serializedSourceMap)).toMatchObject({
+      file: 'style.css',
+      sourceRoot: '/root',
+      sources: ['../src/style.scss'],
+    });
+  });
+
+  it('embeds an inline map', () => {
+    const result = compileString('a {b: c}', {
+      sourceMapOutput: {mode: 'inline'},
+    });
+    const match = result.cssWithSourceMapComment!.match(
+      /\/\*# sourceMappingURL=data:application\/json;base64,(.*) \*\/$/,
+    );
+    expect(Buffer.from(match![1], 'base64').toString()).toBe(
+      result.serializedSourceMap,
+    );
+    expect(result.css).toBe('a {\n  b: c;\n}');
+  });
+
+  it('requires outFile for external maps', () => {
+    expect(() => prepareSourceMapOutput('', sourceMap, {mode: 'file'})).toThrow(
+      "options.sourceMapOutput.outFile must be set if mode is 'file'",
+    );
+  });
+});
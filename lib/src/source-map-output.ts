@@ -0,0 +1,154 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as p from 'path';
+import {RawSourceMap} from 'source-map-js';
+
+import {fileUrlToPathCrossPlatform, pathToUrlString} from './utils';
+
+/** Options for preparing a compilation's source map to be written out. */
+export interface SourceMapOutputOptions {
+  /**
+   * Where the source map goes:
+   *
+   * - `'inline'`: The map is embedded in the CSS's `sourceMappingURL` comment
+   *   as a `data:` URL.
+   *
+   * - `'file'`: The map is meant to be written to `outFile` plus `.map`, and
+   *   the CSS's `sourceMappingURL` comment refers to that file.
+   */
+  mode: 'inline' | 'file';
+
+  /**
+   * The path the CSS will be written to. This is required if `mode` is
+   * `'file'`, and otherwise only used to set the map's `file` field.
+   */
+  outFile?: string;
+
+  /** The map's `sourceRoot` field. */
+  sourceRoot?: string;
+
+  /**
+   * The directory that `file:` URLs in the map's `sources` are made relative
+   * to.
+   *
+   * Defaults to the directory of the map if `mode` is `'file'`, and to the
+   * directory of `outFile` otherwise. If neither applies, sources are left
+   * absolute.
+   */
+  relativeTo?: string;
+}
+
+/** A compilation's CSS and source map, prepared to be written out. */
+export interface SourceMapOutput {
+  /** The CSS with a `sourceMappingURL` comment that refers to the map. */
+  cssWithSourceMapComment: string;
+
+  /** The map with its fields adjusted for where it'll be written. */
+  serializedSourceMap: string;
+}
+
+/**
+ * Adjusts `sourceMap` for where `options` says it'll be written, and adds a
+ * comment referring to it to `css`.
+ */
+export function prepareSourceMapOutput(
+  css: string,
+  sourceMap: RawSourceMap,
+  options: SourceMapOutputOptions,
+): SourceMapOutput {
+  if (options.mode === 'file' && !options.outFile) {
+    throw new Error(
+      "options.sourceMapOutput.outFile must be set if mode is 'file'",
+    );
+  }
+
+  const mapPath = options.outFile ? `${options.outFile}.map` : undefined;
+  const relativeTo =
+    options.relativeTo ??
+    (options.mode === 'file'
+      ? p.dirname(mapPath!)
+      : options.outFile
+        ? p.dirname(options.outFile)
+        : undefined);
+
+  const {css: cssWithSourceMapComment, serializedSourceMap} =
+    serializeSourceMap(css, sourceMap, {
+      file: options.outFile
+        ? pathToUrlString(p.relative(p.dirname(mapPath!), options.outFile))
+        : undefined,
+      sourceRoot: options.sourceRoot,
+      relativeTo,
+      embed: options.mode === 'inline',
+      url:
+        options.mode === 'file'
+          ? pathToUrlString(p.basename(mapPath!))
+          : undefined,
+    });
+  return {cssWithSourceMapComment, serializedSourceMap};
+}
+
+/** Options for `serializeSourceMap()`. */
+export interface SerializeSourceMapOptions {
+  /** The map's `file` field, if it should be set. */
+  file?: string;
+
+  /** The map's `sourceRoot` field, if it should be set. */
+  sourceRoot?: string;
+
+  /**
+   * The directory that `file:` URLs in the map's `sources` are made relative
+   * to. If this isn't set, they're left absolute.
+   */
+  relativeTo?: string;
+
+  /**
+   * Whether to embed the map in the CSS's `sourceMappingURL` comment as a
+   * `data:` URL. This takes precedence over `url`.
+   */
+  embed?: boolean;
+
+  /**
+   * The URL for the CSS's `sourceMappingURL` comment to refer to the map by.
+   * If neither this nor `embed` is set, no comment is added.
+   */
+  url?: string;
+}
+
+/**
+ * Adjusts the fields of `sourceMap` according to `options` and serializes it,
+ * and adds a comment referring to it to `css` if `options` asks for one.
+ *
+ * This is shared by the legacy API and `HostOptions.sourceMapOutput`, which
+ * differ only in how they choose these options.
+ */
+export function serializeSourceMap(
+  css: string,
+  sourceMap: RawSourceMap,
+  options: SerializeSourceMapOptions,
+): {css: string; serializedSourceMap: string} {
+  const {relativeTo} = options;
+  const map: RawSourceMap = {
+    ...sourceMap,
+    sources: sourceMap.sources.map(source =>
+      relativeTo !== undefined && source.startsWith('file:')
+        ? pathToUrlString(
+            p.relative(relativeTo, fileUrlToPathCrossPlatform(source)),
+          )
+        : source,
+    ),
+  };
+  if (options.sourceRoot !== undefined) map.sourceRoot = options.sourceRoot;
+  if (options.file !== undefined) map.file = options.file;
+
+  const serializedSourceMap = JSON.stringify(map);
+  const url = options.embed
+    ? 'data:application/json;base64,' +
+      Buffer.from(serializedSourceMap).toString('base64')
+    : options.url;
+  return {
+    css: url === undefined ? css : `${css}\n\n/*# sourceMappingURL=${url} */`,
+    serializedSourceMap,
+  };
+}
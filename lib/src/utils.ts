@@ -130,6 +130,21 @@ export function withoutExtension(path: string): string {
   return path.substring(0, path.length - extension.length);
 }
 
+/**
+ * Returns the syntax of the stylesheet at the slash-separated `path`, based on
+ * its extension.
+ */
+export function syntaxOf(path: string): Syntax {
+  switch (p.posix.extname(path)) {
+    case '.sass':
+      return 'indented';
+    case '.css':
+      return 'css';
+    default:
+      return 'scss';
+  }
+}
+
 /** Converts a JS syntax string into a protobuf syntax enum. */
 export function protofySyntax(syntax: Syntax): proto.Syntax {
   switch (syntax) {
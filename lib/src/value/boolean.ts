@@ -58,6 +58,14 @@ export class SassBooleanInternal extends SassBoolean {
     return this.value ? trueHash : falseHash;
   }
 
+  toCss(): string {
+    return `${this.value}`;
+  }
+
+  toSassLiteral(): string {
+    return `${this.value}`;
+  }
+
   toString(): string {
     return this.value ? 'sassTrue' : 'sassFalse';
   }
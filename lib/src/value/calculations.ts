@@ -7,6 +7,7 @@ import {List, ValueObject, hash} from 'immutable';
 import {Value} from './index';
 import {SassNumber} from './number';
 import {SassString} from './string';
+import {ToCssOptions} from './serialize';
 
 export type CalculationValue =
   | SassNumber
@@ -93,11 +94,70 @@ export class SassCalculation extends Value {
     return hash(this.name) ^ this.arguments.hashCode();
   }
 
+  toCss(options?: ToCssOptions): string {
+    return this.serialize(value => value.toCss(options));
+  }
+
+  toSassLiteral(): string {
+    return this.serialize(value => value.toSassLiteral());
+  }
+
+  /** Returns this calculation's text, using `serialize` to write values. */
+  private serialize(serialize: (value: Value) => string): string {
+    const args = this.arguments.map(arg =>
+      serializeCalculationValue(arg, serialize),
+    );
+    return `${this.name}(${args.join(', ')})`;
+  }
+
   toString(): string {
     return `${this.name}(${this.arguments.join(', ')})`;
   }
 }
 
+/** Returns `value`'s text, using `serialize` to write Sass values. */
+function serializeCalculationValue(
+  value: CalculationValue,
+  serialize: (value: Value) => string,
+): string {
+  if (value instanceof CalculationInterpolation) return `(${value.value})`;
+  if (!(value instanceof CalculationOperation)) return serialize(value);
+
+  return (
+    `${serializeOperand(value, value.left, false, serialize)} ` +
+    `${value.operator} ` +
+    serializeOperand(value, value.right, true, serialize)
+  );
+}
+
+/**
+ * Returns the text of `operand`, the left or right operand of `operation`,
+ * with parentheses if it would otherwise be parsed differently.
+ */
+function serializeOperand(
+  operation: CalculationOperation,
+  operand: CalculationValue,
+  isRight: boolean,
+  serialize: (value: Value) => string,
+): string {
+  const text = serializeCalculationValue(operand, serialize);
+  if (!(operand instanceof CalculationOperation)) return text;
+
+  const precedence = operatorPrecedence(operation.operator);
+  const operandPrecedence = operatorPrecedence(operand.operator);
+  return operandPrecedence < precedence ||
+    (isRight &&
+      operandPrecedence === precedence &&
+      (operation.operator === '-' || operation.operator === '/'))
+    ? `(${text})`
+    : text;
+}
+
+/** Returns the precedence of `operator`, where higher binds more tightly. */
+function operatorPrecedence(operator: CalculationOperator): number {
+  return operator === '+' || operator === '-' ? 1 : 2;
+}
+
 const operators = ['+', '-', '*', '/'] as const;
 export type CalculationOperator = (typeof operators)[number];
 
@@ -10,10 +10,12 @@ import {
   fuzzyEquals,
   fuzzyGreaterThanOrEquals,
   fuzzyHashCode,
+  fuzzyInRange,
   fuzzyLessThan,
   fuzzyRound,
   positiveMod,
 } from './utils';
+import {ToCssOptions, formatCssNumber} from './serialize';
 import {List, hash} from 'immutable';
 import Color from 'colorjs.io';
 
@@ -1180,7 +1182,138 @@ export class SassColor extends Value {
     );
   }
 
+  toCss(options?: ToCssOptions): string {
+    function format(value: number): string {
+      return formatCssNumber(value, options);
+    }
+
+    switch (options?.colorFormat ?? 'auto') {
+      case 'hex': {
+        const rgb = this.toSpace('rgb').toGamut({method: 'local-minde'});
+        const bytes = rgb.channels.toArray();
+        if (rgb.alpha < 1) bytes.push(rgb.alpha * 255);
+        return '#' + bytes.map(toHexByte).join('');
+      }
+
+      case 'rgb':
+        return legacyCssFunction('rgb', this.toSpace('rgb'), format);
+
+      case 'hsl':
+        return legacyCssFunction('hsl', this.toSpace('hsl'), format);
+
+      case 'auto':
+        if (!this.isLegacy || this.hasMissingChannel) {
+          return this.toModernSyntax(format);
+        }
+
+        return (
+          this.toHex() ?? legacyCssFunction('rgb', this.toSpace('rgb'), format)
+        );
+    }
+  }
+
+  toSassLiteral(): string {
+    // Hex syntax produces an RGB color, so it's only used for those.
+    return (
+      (this.space === 'rgb' ? this.toHex() : null) ??
+      this.toModernSyntax(value => `${value}`)
+    );
+  }
+
+  /**
+   * Returns this color in hex syntax if it's an opaque RGB color whose channels
+   * are integers between 0 and 255, and `null` otherwise.
+   */
+  private toHex(): string | null {
+    const rgb = this.toSpace('rgb');
+    if (rgb.hasMissingChannel || !fuzzyEquals(rgb.alpha, 1)) return null;
+    const channels = rgb.channels.toArray();
+    const areBytes = channels.every(
+      channel =>
+        fuzzyInRange(channel, 0, 255) !== null &&
+        fuzzyEquals(channel, fuzzyRound(channel)),
+    );
+    return areBytes ? '#' + channels.map(toHexByte).join('') : null;
+  }
+
+  /**
+   * Returns this color in its own color space's CSS Color 4 syntax, such as
+   * `hsl(120 50% 40% / 0.5)` or `color(display-p3 1 0 0)`, using `format` to
+   * write numbers.
+   */
+  private toModernSyntax(format: (value: number) => string): string {
+    const space = this.space;
+    const units = space === 'hsl' || space === 'hwb' ? ['', '%', '%'] : [];
+    const channels = this.channelsOrNull
+      .toArray()
+      .map((channel, i) =>
+        channel === null ? 'none' : format(channel) + (units[i] ?? ''),
+      )
+      .join(' ');
+    const alpha =
+      this.color.alpha === null
+        ? ' / none'
+        : fuzzyEquals(this.alpha, 1)
+          ? ''
+          : ` / ${format(this.alpha)}`;
+    return ['rgb', 'hsl', 'hwb', 'lab', 'lch', 'oklab', 'oklch'].includes(space)
+      ? `${space}(${channels}${alpha})`
+      : `color(${space} ${channels}${alpha})`;
+  }
+
+  /** Whether any of this color's channels, including alpha, are missing. */
+  private get hasMissingChannel(): boolean {
+    return this.color.alpha === null || this.channelsOrNull.includes(null);
+  }
+
   toString(): string {
     return this.color.toString({inGamut: false});
   }
 }
+
+/**
+ * Returns `color` written with the legacy comma-separated syntax of the CSS
+ * function `name` or its `a`-suffixed form, using `format` to write numbers.
+ */
+function legacyCssFunction(
+  name: 'rgb' | 'hsl',
+  color: SassColor,
+  format: (value: number) => string,
+): string {
+  const units = name === 'hsl' ? ['', '%', '%'] : ['', '', ''];
+  const args = color.channels
+    .toArray()
+    .map((channel, i) => format(channel) + units[i]);
+  if (color.alpha < 1) {
+    return `${name}a(${args.join(', ')}, ${format(color.alpha)})`;
+  }
+  return `${name}(${args.join(', ')})`;
+}
+
+/** Returns `value`, rounded and clamped to a byte, as two hex digits. */
+function toHexByte(value: number): string {
+  return Math.min(255, Math.max(0, Math.round(value)))
+    .toString(16)
+    .padStart(2, '0');
+}
+
+/**
+ * Parses `text` as a CSS color, such as `#f00`, `red`, or `hsl(0 100% 50%)`,
+ * or returns `null` if it isn't one.
+ */
+export function parseCssColor(text: string): SassColor | null {
+  let color: Color;
+  try {
+    color = new Color(text);
+  } catch {
+    return null;
+  }
+
+  // ColorJS parses legacy RGB syntax into the `srgb` space, so only the
+  // `color()` function produces a Sass `srgb` color.
+  const isRgb = color.spaceId === 'srgb' && !/^\s*color\(/i.test(text);
+  return new SassColor({
+    color,
+    space: decodeSpaceFromColorJs(color.spaceId, isRgb),
+  });
+}
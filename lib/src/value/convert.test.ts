@@ -0,0 +1,131 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {List, OrderedMap} from 'immutable';
+
+import {Value} from './index';
+import {sassTrue} from './boolean';
+import {SassColor} from './color';
+import {fromSassValue, toSassValue} from './convert';
+import {SassList} from './list';
+import {SassMap} from './map';
+import {sassNull} from './null';
+import {SassNumber} from './number';
+import {SassString} from './string';
+
+describe('toSassValue', () => {
+  it('converts primitives', () => {
+    expect(toSassValue(null)).toBe(sassNull);
+    expect(toSassValue(undefined)).toBe(sassNull);
+    expect(toSassValue(true)).toBe(sassTrue);
+    expect(toSassValue(1.5)).toEqual(new SassNumber(1.5));
+  });
+
+  it('parses numbers with units', () => {
+    expect(toSassValue('12px')).toEqual(new SassNumber(12, 'px'));
+    expect(toSassValue('-.5em')).toEqual(new SassNumber(-0.5, 'em'));
+    expect(toSassValue('50%')).toEqual(new SassNumber(50, '%'));
+    expect(toSassValue('1e3')).toEqual(new SassNumber(1000));
+  });
+
+  it('parses colors', () => {
+    const red = new SassColor({red: 255, green: 0, blue: 0});
+    expect(toSassValue('#f00').equals(red)).toBe(true);
+    expect(toSassValue('red').equals(red)).toBe(true);
+    expect((toSassValue('hsl(0 100% 50%)') as SassColor).space).toBe('hsl');
+  });
+
+  it('converts other strings according to options.quotes', () => {
+    expect(toSassValue('bold')).toEqual(new SassString('bold'));
+    expect(toSassValue('bold', {quotes: false})).toEqual(
+      new SassString('bold', {quotes: false}),
+    );
+    expect(toSassValue('12px', {parseNumbers: false})).toEqual(
+      new SassString('12px'),
+    );
+  });
+
+  it('converts nested arrays and objects', () => {
+    const value = toSassValue(
+      {spacing: ['4px', '8px'], 100: 'red'},
+      {separator: ' ', brackets: true},
+    );
+    expect(value).toBeInstanceOf(SassMap);
+    const map = value as SassMap;
+    const list = map.get(new SassString('spacing')) as SassList;
+    expect(list.separator).toBe(' ');
+    expect(list.hasBrackets).toBe(true);
+    expect(list.asList).toEqual(
+      List([new SassNumber(4, 'px'), new SassNumber(8, 'px')]),
+    );
+    expect(map.get(new SassNumber(100))).toBeInstanceOf(SassColor);
+  });
+
+  it('rejects data it has no Sass equivalent for', () => {
+    expect(() => toSassValue(new Date(0))).toThrow("Can't convert");
+  });
+});
+
+describe('fromSassValue', () => {
+  it('converts values to plain data', () => {
+    expect(
+      fromSassValue(
+        new SassMap(
+          OrderedMap<Value, Value>([
+            [new SassString('size'), new SassNumber(12, 'px')],
+            [new SassNumber(100), new SassColor({red: 255, green: 0, blue: 0})],
+            [
+              new SassString('font', {quotes: false}),
+              new SassList([new SassString('Helvetica'), sassNull]),
+            ],
+          ]),
+        ),
+      ),
+    ).toEqual({size: '12px', 100: '#ff0000', font: ['Helvetica', null]});
+  });
+
+  it('round-trips values through toSassValue()', () => {
+    const options = {separator: ' ' as const, quotes: false};
+    for (const value of [
+      new SassNumber(1.25, 'rem'),
+      new SassColor({hue: 120, saturation: 50, lightness: 40, alpha: 0.5}),
+      new SassList([new SassString('solid', {quotes: false}), sassTrue], {
+        separator: ' ',
+      }),
+    ]) {
+      expect(
+        toSassValue(fromSassValue(value, options), options).equals(value),
+      ).toBe(true);
+    }
+  });
+
+  describe('in strict mode, throws an error for', () => {
+    it('a string that would become a number', () => {
+      expect(() => fromSassValue(new SassString('12px'))).toThrow(
+        '"12px" can\'t be converted to JS without changing its value.',
+      );
+    });
+
+    it('a number with complex units', () => {
+      const number = new SassNumber(1, {
+        numeratorUnits: ['px'],
+        denominatorUnits: ['s'],
+      });
+      expect(() => fromSassValue(number)).toThrow(
+        "can't be converted to JS without changing its value",
+      );
+      expect(fromSassValue(number, {strict: false})).toBe('1px/s');
+    });
+
+    it('a list with a different separator', () => {
+      const list = new SassList([new SassNumber(1), new SassNumber(2)], {
+        separator: ' ',
+      });
+      expect(() => fromSassValue(list)).toThrow(
+        "can't be converted to JS without changing its value",
+      );
+      expect(fromSassValue(list, {separator: ' '})).toEqual([1, 2]);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {OrderedMap} from 'immutable';
+import {inspect} from 'util';
+
+import {Value} from './index';
+import {SassBoolean, sassFalse, sassTrue} from './boolean';
+import {SassColor, parseCssColor} from './color';
+import {ListSeparator, SassList} from './list';
+import {SassMap} from './map';
+import {sassNull} from './null';
+import {SassNumber} from './number';
+import {SassString} from './string';
+import {fuzzyEquals, fuzzyRound} from './utils';
+
+/** Plain JS data that can be converted to and from a Sass value. */
+export type JsValue =
+  null | boolean | number | string | JsValue[] | {[key: string]: JsValue};
+
+/** Options for `toSassValue()` and `fromSassValue()`. */
+export interface ValueConversionOptions {
+  /**
+   * Whether strings such as `"12px"` or `"1.5"` represent numbers, with any
+   * unit after the number.
+   *
+   * Defaults to `true`.
+   */
+  parseNumbers?: boolean;
+
+  /**
+   * Whether CSS color strings such as `"#f00"`, `"red"`, or `"hsl(0 100%
+   * 50%)"` represent colors.
+   *
+   * Defaults to `true`.
+   */
+  parseColors?: boolean;
+
+  /**
+   * Whether strings that don't represent numbers or colors become quoted Sass
+   * strings. This also applies to map keys.
+   *
+   * Defaults to `true`.
+   */
+  quotes?: boolean;
+
+  /**
+   * The separator of the Sass lists that JS arrays represent.
+   *
+   * Defaults to `','`.
+   */
+  separator?: Exclude<ListSeparator, null>;
+
+  /**
+   * Whether the Sass lists that JS arrays represent have square brackets.
+   *
+   * Defaults to `false`.
+   */
+  brackets?: boolean;
+
+  /**
+   * Whether `fromSassValue()` throws an error for a value that wouldn't be
+   * converted back to an equal value by `toSassValue()` with the same options,
+   * such as a number with multiple units, a quoted string that looks like a
+   * number, or a list with a different separator. If this is `false`, such
+   * values are converted to the closest JS data instead, generally the string
+   * that represents them in CSS.
+   *
+   * Quotes aren't considered part of a string's value, so a string may come
+   * back with or without quotes depending on `quotes`.
+   *
+   * Defaults to `true`.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Matches a number with an optional unit. The first group is the number and
+ * the second is the unit.
+ */
+const numberPattern =
+  /^([+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?)(%|[a-z_][a-z0-9_-]*)?$/i;
+
+/**
+ * Converts plain JS data to a Sass value.
+ *
+ * `null` and `undefined` become `null`, arrays become lists, and plain objects
+ * and `Map`s become maps. Strings become numbers or colors if they represent
+ * them according to `options`, and other strings otherwise. Sass values are
+ * returned as-is, so they can be mixed with plain data.
+ */
+export function toSassValue(
+  js: unknown,
+  options?: ValueConversionOptions,
+): Value {
+  if (js === null || js === undefined) return sassNull;
+  if (js instanceof Value) return js;
+  if (typeof js === 'boolean') return js ? sassTrue : sassFalse;
+  if (typeof js === 'number') return new SassNumber(js);
+  if (typeof js === 'string') return stringToSassValue(js, options);
+
+  if (Array.isArray(js)) {
+    return new SassList(
+      js.map(element => toSassValue(element, options)),
+      {
+        separator: options?.separator ?? ',',
+        brackets: options?.brackets ?? false,
+      },
+    );
+  }
+
+  if (js instanceof Map) {
+    return new SassMap(
+      OrderedMap(
+        [...js].map(([key, value]) => [
+          toSassValue(key, options),
+          toSassValue(value, options),
+        ]),
+      ),
+    );
+  }
+
+  if (isPlainObject(js)) {
+    return new SassMap(
+      OrderedMap(
+        Object.entries(js).map(([key, value]) => [
+          stringToSassValue(key, options),
+          toSassValue(value, options),
+        ]),
+      ),
+    );
+  }
+
+  throw Error(`Can't convert ${inspect(js)} to a Sass value.`);
+}
+
+/**
+ * Converts a Sass value to plain JS data, the inverse of `toSassValue()` with
+ * the same `options`.
+ *
+ * `null` becomes `null`, unitless numbers become JS numbers, lists become
+ * arrays, and maps become plain objects. Numbers with units, colors, and
+ * strings become strings.
+ */
+export function fromSassValue(
+  value: Value,
+  options?: ValueConversionOptions,
+): JsValue {
+  if (value.realNull === null) return null;
+  if (value instanceof SassBoolean) return value.value;
+
+  if (value instanceof SassList) {
+    const list = value.asList;
+    if (
+      list.size > 0 &&
+      (value.separator !== (options?.separator ?? ',') ||
+        value.hasBrackets !== (options?.brackets ?? false))
+    ) {
+      lossy(value, options);
+    }
+    return list.map(element => fromSassValue(element, options)).toArray();
+  }
+
+  if (value instanceof SassMap) {
+    const object: {[key: string]: JsValue} = {};
+    for (const [key, element] of value.contents) {
+      const jsKey = fromSassValue(key, options);
+      let stringKey: string;
+      if (typeof jsKey === 'string' || typeof jsKey === 'number') {
+        stringKey = `${jsKey}`;
+        checkRoundTrip(key, stringKey, options);
+      } else {
+        lossy(key, options);
+        stringKey = key.toString();
+      }
+      object[stringKey] = fromSassValue(element, options);
+    }
+    return object;
+  }
+
+  let js: JsValue;
+  if (value instanceof SassNumber) {
+    js = value.hasUnits ? numberToString(value) : value.value;
+  } else if (value instanceof SassString) {
+    js = value.text;
+  } else if (value instanceof SassColor) {
+    js = colorToString(value);
+  } else {
+    js = value.toString();
+  }
+  checkRoundTrip(value, js, options);
+  return js;
+}
+
+/** Converts `text` to a number, color, or string according to `options`. */
+function stringToSassValue(
+  text: string,
+  options?: ValueConversionOptions,
+): Value {
+  if (options?.parseNumbers ?? true) {
+    const match = text.match(numberPattern);
+    if (match) return new SassNumber(Number(match[1]), match[2]);
+  }
+
+  if (options?.parseColors ?? true) {
+    const color = parseCssColor(text);
+    if (color) return color;
+  }
+
+  return new SassString(text, {quotes: options?.quotes ?? true});
+}
+
+/** Returns the string that represents `number`, which has units. */
+function numberToString(number: SassNumber): string {
+  if (number.numeratorUnits.size === 1 && number.denominatorUnits.isEmpty()) {
+    return `${number.value}${number.numeratorUnits.first()}`;
+  }
+  return number.toString();
+}
+
+/**
+ * Returns the string that represents `color`, using hex syntax if it's an
+ * opaque RGB color with integer channels.
+ */
+function colorToString(color: SassColor): string {
+  if (color.space === 'rgb' && color.alpha === 1) {
+    const channels = color.channelsOrNull;
+    if (channels.every(isByte)) {
+      return (
+        '#' +
+        channels
+          .map(channel => fuzzyRound(channel)!.toString(16).padStart(2, '0'))
+          .join('')
+      );
+    }
+  }
+  return color.toString();
+}
+
+/** Returns whether `channel` is an integer between 0 and 255. */
+function isByte(channel: number | null): boolean {
+  return (
+    channel !== null &&
+    channel >= 0 &&
+    channel <= 255 &&
+    fuzzyEquals(channel, fuzzyRound(channel))
+  );
+}
+
+/**
+ * Throws an error if `options` is strict and `js` wouldn't be converted back to
+ * a value equal to `value`.
+ */
+function checkRoundTrip(
+  value: Value,
+  js: JsValue,
+  options?: ValueConversionOptions,
+): void {
+  if (!toSassValue(js, options).equals(value)) lossy(value, options);
+}
+
+/**
+ * Throws an error if `options` is strict, since `value` can't be converted to
+ * JS without changing it.
+ */
+function lossy(value: Value, options?: ValueConversionOptions): void {
+  if (options?.strict ?? true) {
+    throw Error(
+      `${value} can't be converted to JS without changing its value. Pass ` +
+        '`strict: false` to convert it anyway.',
+    );
+  }
+}
+
+/** Returns whether `js` is an object literal or an object without a prototype. */
+function isPlainObject(js: unknown): js is Record<string, unknown> {
+  if (typeof js !== 'object' || js === null) return false;
+  const prototype = Object.getPrototypeOf(js);
+  return prototype === Object.prototype || prototype === null;
+}
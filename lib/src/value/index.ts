@@ -13,6 +13,7 @@ import {SassString} from './string';
 import {valueError} from '../utils';
 import {SassCalculation} from './calculations';
 import {SassMixin} from './mixin';
+import {ToCssOptions} from './serialize';
 
 /**
  * A SassScript value.
@@ -195,6 +196,32 @@ export abstract class Value implements ValueObject {
   /** This is the same for values that are `==` in SassScript. */
   abstract hashCode(): number;
 
+  /**
+   * Returns `this` as CSS text, formatted according to `options`.
+   *
+   * Throws an error if `this` can't be represented in CSS, such as if it's a
+   * map or a number with complex units.
+   */
+  toCss(options?: ToCssOptions): string {
+    throw valueError(`${this} isn't a valid CSS value`);
+  }
+
+  /**
+   * Returns SassScript source text that evaluates to a value equal to `this`,
+   * such as for generating `$variable: ...;` declarations.
+   *
+   * Values that have no literal syntax, such as slash-separated lists and
+   * numbers with complex units, are written as calls to functions in the
+   * `sass:list` and `sass:math` modules. Those modules must be loaded with
+   * `@use` for such text to be evaluated.
+   *
+   * Throws an error if `this` can't be written as SassScript, such as if it's
+   * a function or mixin.
+   */
+  toSassLiteral(): string {
+    throw valueError(`${this} can't be written as a Sass literal`);
+  }
+
   /** A meaningful descriptor for this value. */
   abstract toString(): string;
 }
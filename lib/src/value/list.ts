@@ -6,6 +6,7 @@ import {List, hash, isList} from 'immutable';
 
 import {Value} from './index';
 import {SassMap} from './map';
+import {ToCssOptions} from './serialize';
 import {asImmutableList, valueError} from '../utils';
 
 /** The types of separator that a SassList can have. */
@@ -130,6 +131,59 @@ export class SassList extends Value {
           hash(this.separator);
   }
 
+  toCss(options?: ToCssOptions): string {
+    if (this.contentsInternal.isEmpty() && !this.hasBrackets) {
+      throw valueError(`${this} isn't a valid CSS value`);
+    }
+
+    // Like Sass, omit elements that wouldn't produce any CSS.
+    const elements = this.contentsInternal
+      .filter(element => !isBlank(element))
+      .map(element => element.toCss(options));
+
+    const text = elements.join(
+      this.separator === ',' ? ', ' : this.separator === '/' ? '/' : ' ',
+    );
+    return this.hasBrackets ? `[${text}]` : text;
+  }
+
+  toSassLiteral(): string {
+    const elements = this.contentsInternal;
+    if (elements.isEmpty()) return this.hasBrackets ? '[]' : '()';
+
+    if (this.separator === ',' || this.separator === null) {
+      const text = elements
+        .map(element => elementToSassLiteral(element, ','))
+        .join(', ');
+      if (this.hasBrackets) {
+        return this.separator === ',' && elements.size === 1
+          ? `[${text},]`
+          : `[${text}]`;
+      }
+      return elements.size === 1 ? `(${text},)` : text;
+    }
+
+    if (this.separator === ' ' && elements.size > 1) {
+      const text = elements
+        .map(element => elementToSassLiteral(element, ' '))
+        .join(' ');
+      return this.hasBrackets ? `[${text}]` : text;
+    }
+
+    // Other lists have no literal syntax, so build them with `sass:list`.
+    const text = elements
+      .map(element => elementToSassLiteral(element, ','))
+      .join(', ');
+    if (this.separator === '/' && !this.hasBrackets && elements.size > 1) {
+      return `list.slash(${text})`;
+    }
+    return (
+      `list.join((), (${text},), ` +
+      `$separator: ${this.separator === '/' ? 'slash' : 'space'}` +
+      `${this.hasBrackets ? ', $bracketed: true' : ''})`
+    );
+  }
+
   toString(): string {
     let string = '';
     if (this.hasBrackets) string += '[';
@@ -142,3 +196,32 @@ export class SassList extends Value {
     return string;
   }
 }
+
+/**
+ * Returns whether `value` produces no CSS as a list element, because it's
+ * `null` or an empty unbracketed list.
+ */
+function isBlank(value: Value): boolean {
+  return (
+    value.realNull === null ||
+    (value instanceof SassList && !value.hasBrackets && value.asList.isEmpty())
+  );
+}
+
+/**
+ * Returns `value`'s Sass literal for use as an element of a list with
+ * `separator`, or of a map if `separator` is `','`, with parentheses if it
+ * would otherwise be parsed differently.
+ */
+export function elementToSassLiteral(
+  value: Value,
+  separator: ',' | ' ',
+): string {
+  const literal = value.toSassLiteral();
+  const needsParentheses =
+    value instanceof SassList && !value.hasBrackets && value.asList.size > 1
+      ? value.separator === ',' ||
+        (separator === ' ' && value.separator === ' ')
+      : separator === ' ' && /^([-+]|#\{)/.test(literal);
+  return needsParentheses ? `(${literal})` : literal;
+}
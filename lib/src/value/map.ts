@@ -5,7 +5,7 @@
 import {List, OrderedMap} from 'immutable';
 
 import {Value} from './index';
-import {ListSeparator, SassList} from './list';
+import {ListSeparator, SassList, elementToSassLiteral} from './list';
 
 /** A SassScript map */
 export class SassMap extends Value {
@@ -101,6 +101,16 @@ export class SassMap extends Value {
         );
   }
 
+  toSassLiteral(): string {
+    if (this.contents.isEmpty()) return '()';
+    return `(${Array.from(
+      this.contents.entries(),
+      ([key, value]) =>
+        `${elementToSassLiteral(key, ',')}: ` +
+        elementToSassLiteral(value, ','),
+    ).join(', ')})`;
+  }
+
   toString(): string {
     let string = '(';
     string += Array.from(
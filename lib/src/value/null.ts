@@ -45,6 +45,14 @@ export class SassNull extends Value {
     return hashCode;
   }
 
+  toCss(): string {
+    return '';
+  }
+
+  toSassLiteral(): string {
+    return 'null';
+  }
+
   toString(): string {
     return 'sassNull';
   }
@@ -0,0 +1,108 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {compileString} from '../compile';
+import {SassNumber} from './number';
+
+describe('SassNumber', () => {
+  const px = new SassNumber(1, 'px');
+  const inch = new SassNumber(1, 'in');
+
+  describe('plus()', () => {
+    it('converts the other number to its units', () => {
+      expect(inch.plus(new SassNumber(48, 'px'))).toEqual(
+        new SassNumber(1.5, 'in'),
+      );
+    });
+
+    it('uses the units of whichever number has them', () => {
+      expect(new SassNumber(2).plus(px)).toEqual(new SassNumber(3, 'px'));
+      expect(px.plus(new SassNumber(2))).toEqual(new SassNumber(3, 'px'));
+    });
+
+    it('throws an error like the compiler for incompatible units', () => {
+      expect(() => compileString('a {b: 1px + 1s}')).toThrow(
+        '1px and 1s have incompatible units.',
+      );
+      expect(() => px.plus(new SassNumber(1, 's'))).toThrow(
+        '1px and 1s have incompatible units.',
+      );
+    });
+  });
+
+  it('minus() subtracts', () => {
+    expect(new SassNumber(1, 's').minus(new SassNumber(250, 'ms'))).toEqual(
+      new SassNumber(0.75, 's'),
+    );
+  });
+
+  describe('times()', () => {
+    it('multiplies units', () => {
+      const result = px.times(new SassNumber(2, 'px'));
+      expect(result.value).toBe(2);
+      expect(result.numeratorUnits.toArray()).toEqual(['px', 'px']);
+    });
+
+    it('cancels compatible units', () => {
+      const perInch = new SassNumber(2, {denominatorUnits: ['in']});
+      expect(new SassNumber(48, 'px').times(perInch)).toEqual(
+        new SassNumber(1),
+      );
+    });
+  });
+
+  describe('dividedBy()', () => {
+    it('cancels compatible units', () => {
+      expect(inch.dividedBy(new SassNumber(2, 'px'))).toEqual(
+        new SassNumber(48),
+      );
+    });
+
+    it('keeps incompatible units', () => {
+      const result = px.dividedBy(new SassNumber(4, 's'));
+      expect(result.value).toBe(0.25);
+      expect(result.numeratorUnits.toArray()).toEqual(['px']);
+      expect(result.denominatorUnits.toArray()).toEqual(['s']);
+    });
+
+    it('inverts the units of a unitless dividend', () => {
+      const result = new SassNumber(1).dividedBy(new SassNumber(4, 's'));
+      expect(result.denominatorUnits.toArray()).toEqual(['s']);
+    });
+  });
+
+  it("modulo() returns a result with the divisor's sign", () => {
+    expect(new SassNumber(5, 'px').modulo(new SassNumber(3, 'px'))).toEqual(
+      new SassNumber(2, 'px'),
+    );
+    expect(new SassNumber(-5).modulo(new SassNumber(3)).value).toBe(1);
+    expect(new SassNumber(5).modulo(new SassNumber(-3)).value).toBe(-1);
+    expect(new SassNumber(6).modulo(new SassNumber(-3)).value).toBe(0);
+    expect(new SassNumber(5).modulo(new SassNumber(0)).value).toBeNaN();
+    expect(new SassNumber(5).modulo(new SassNumber(Infinity)).value).toBe(5);
+    expect(new SassNumber(-5).modulo(new SassNumber(Infinity)).value).toBeNaN();
+  });
+
+  describe('compareTo()', () => {
+    it('compares across units', () => {
+      expect(inch.compareTo(new SassNumber(95, 'px'))).toBe(1);
+      expect(inch.compareTo(new SassNumber(97, 'px'))).toBe(-1);
+      expect(inch.compareTo(new SassNumber(96, 'px'))).toBe(0);
+      expect(new SassNumber(0.1 + 0.2).compareTo(new SassNumber(0.3))).toBe(0);
+    });
+
+    it('throws an error for incompatible units', () => {
+      expect(() => px.compareTo(new SassNumber(1, 's'))).toThrow(
+        '1px and 1s have incompatible units.',
+      );
+    });
+  });
+
+  it('isComparableTo() checks unit compatibility', () => {
+    expect(px.isComparableTo(inch)).toBe(true);
+    expect(px.isComparableTo(new SassNumber(1))).toBe(true);
+    expect(px.isComparableTo(new SassNumber(1, 's'))).toBe(false);
+    expect(px.isComparableTo(new SassNumber(1, 'em'))).toBe(false);
+  });
+});
@@ -6,6 +6,11 @@ import {List, hash} from 'immutable';
 
 import {asImmutableList, valueError} from '../utils';
 import {Value} from './index';
+import {
+  ToCssOptions,
+  formatCssNumber,
+  formatNonFiniteNumber,
+} from './serialize';
 import {
   fuzzyAsInt,
   fuzzyEquals,
@@ -519,6 +524,89 @@ export class SassNumber extends Value {
     });
   }
 
+  /**
+   * Returns the sum of `this` and `other`.
+   *
+   * `other` is converted to `this`'s units. If either number is unitless, the
+   * result has the other number's units. Throws an error if the units are
+   * incompatible.
+   */
+  plus(other: SassNumber): SassNumber {
+    return this.coerceNumber(other, (num1, num2) => num1 + num2);
+  }
+
+  /**
+   * Returns the result of subtracting `other` from `this`.
+   *
+   * Units are handled the same way as `plus()`.
+   */
+  minus(other: SassNumber): SassNumber {
+    return this.coerceNumber(other, (num1, num2) => num1 - num2);
+  }
+
+  /**
+   * Returns the product of `this` and `other`.
+   *
+   * The result has both numbers' units, with any numerator unit that's
+   * compatible with a denominator unit cancelled out.
+   */
+  times(other: SassNumber): SassNumber {
+    return new SassNumber(this.value * other.value, {
+      numeratorUnits: this.numeratorUnits.concat(other.numeratorUnits),
+      denominatorUnits: this.denominatorUnits.concat(other.denominatorUnits),
+    });
+  }
+
+  /**
+   * Returns the result of dividing `this` by `other`.
+   *
+   * The result has `this`'s units divided by `other`'s, with any numerator
+   * unit that's compatible with a denominator unit cancelled out.
+   */
+  dividedBy(other: SassNumber): SassNumber {
+    return new SassNumber(this.value / other.value, {
+      numeratorUnits: this.numeratorUnits.concat(other.denominatorUnits),
+      denominatorUnits: this.denominatorUnits.concat(other.numeratorUnits),
+    });
+  }
+
+  /**
+   * Returns the remainder of dividing `this` by `other`, which has the same
+   * sign as `other`.
+   *
+   * Units are handled the same way as `plus()`.
+   */
+  modulo(other: SassNumber): SassNumber {
+    return this.coerceNumber(other, moduloLikeSass);
+  }
+
+  /**
+   * Returns a negative number if `this` is less than `other`, a positive number
+   * if it's greater, and `0` if they're equal within Sass's precision.
+   *
+   * `other` is converted to `this`'s units, and unitless numbers can be
+   * compared to any number. Throws an error if the units are incompatible.
+   */
+  compareTo(other: SassNumber): number {
+    return this.coerceUnits(other, (num1, num2) =>
+      fuzzyEquals(num1, num2) ? 0 : num1 < num2 ? -1 : 1,
+    );
+  }
+
+  /**
+   * Whether `compareTo()`, `plus()`, `minus()`, and `modulo()` can be called
+   * with `this` and `other` without throwing an error.
+   */
+  isComparableTo(other: SassNumber): boolean {
+    if (!this.hasUnits || !other.hasUnits) return true;
+    try {
+      other.coerceValueToMatch(this);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   equals(other: Value): boolean {
     if (!(other instanceof SassNumber)) return false;
     try {
@@ -542,6 +630,41 @@ export class SassNumber extends Value {
     );
   }
 
+  toCss(options?: ToCssOptions): string {
+    if (this.numeratorUnits.size > 1 || !this.denominatorUnits.isEmpty()) {
+      throw valueError(`${this} isn't a valid CSS value`);
+    }
+
+    const unit = this.numeratorUnits.first() ?? '';
+    return Number.isFinite(this.value)
+      ? formatCssNumber(this.value, options) + unit
+      : formatNonFiniteNumber(this.value, unit);
+  }
+
+  toSassLiteral(): string {
+    if (this.numeratorUnits.size <= 1 && this.denominatorUnits.isEmpty()) {
+      const unit = this.numeratorUnits.first() ?? '';
+      return Number.isFinite(this.value)
+        ? `${this.value}${unit}`
+        : formatNonFiniteNumber(this.value, unit);
+    }
+
+    // There's no literal syntax for complex units, so build them up with
+    // arithmetic.
+    const value = Number.isFinite(this.value)
+      ? `${this.value}`
+      : formatNonFiniteNumber(this.value, '');
+    const numerator = [
+      value + (this.numeratorUnits.first() ?? ''),
+      ...this.numeratorUnits.skip(1).map(unit => `1${unit}`),
+    ].join(' * ');
+    if (this.denominatorUnits.isEmpty()) return numerator;
+    const denominator = this.denominatorUnits
+      .map(unit => `1${unit}`)
+      .join(' * ');
+    return `math.div(${numerator}, ${denominator})`;
+  }
+
   toString(): string {
     return `${this.value}${unitString(
       this.numeratorUnits,
@@ -549,6 +672,40 @@ export class SassNumber extends Value {
     )}`;
   }
 
+  // Returns a number whose value is the result of calling `operation` with
+  // `this` and `other`'s values in the same units, and whose units are `this`'s
+  // (or `other`'s if `this` is unitless).
+  private coerceNumber(
+    other: SassNumber,
+    operation: (num1: number, num2: number) => number,
+  ): SassNumber {
+    const units = this.hasUnits ? this : other;
+    return new SassNumber(this.coerceUnits(other, operation), {
+      numeratorUnits: units.numeratorUnits,
+      denominatorUnits: units.denominatorUnits,
+    });
+  }
+
+  // Returns the result of calling `operation` with `this`'s value and
+  // `other`'s value converted to `this`'s units.
+  //
+  // Throws an error if the units are incompatible.
+  private coerceUnits<T>(
+    other: SassNumber,
+    operation: (num1: number, num2: number) => T,
+  ): T {
+    let otherValue: number;
+    try {
+      otherValue = other.coerceValueToMatch(this);
+    } catch (error) {
+      // Re-run the conversion in the other direction so that the error message
+      // mentions `this` before `other`.
+      this.coerceValueToMatch(other);
+      throw error;
+    }
+    return operation(this.value, otherValue);
+  }
+
   // Returns the value of converting `number` to new units.
   //
   // The units may be specified as lists of units (`newNumeratorUnits` and
@@ -683,6 +840,21 @@ function conversionFactor(fromUnit: string, toUnit: string): number | null {
   return factors[fromUnit] ?? null;
 }
 
+// Returns `num1 % num2` with the same semantics as Sass's `%` operator, where
+// the result has the same sign as `num2`.
+function moduloLikeSass(num1: number, num2: number): number {
+  if (!Number.isFinite(num1)) return NaN;
+  if (!Number.isFinite(num2)) {
+    const num1IsNegative = num1 < 0 || Object.is(num1, -0);
+    return num1IsNegative === num2 < 0 ? num1 : NaN;
+  }
+  if (num2 === 0) return NaN;
+
+  const result = num1 % num2;
+  if (result === 0) return 0;
+  return result < 0 === num2 < 0 ? result : result + num2;
+}
+
 // Returns a human-readable string representation of `numerators` and
 // `denominators`.
 function unitString(
@@ -0,0 +1,201 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {OrderedMap} from 'immutable';
+
+import {compileString} from '../compile';
+import {defineFunction} from '../define-function';
+import {Value} from './index';
+import {sassFalse, sassTrue} from './boolean';
+import {CalculationOperation, SassCalculation} from './calculations';
+import {SassColor} from './color';
+import {SassList} from './list';
+import {SassMap} from './map';
+import {sassNull} from './null';
+import {SassNumber} from './number';
+import {SassString} from './string';
+
+describe('toCss', () => {
+  it('rounds numbers to the precision', () => {
+    expect(new SassNumber(1 / 3, 'px').toCss()).toBe('0.3333333333px');
+    expect(new SassNumber(1 / 3).toCss({precision: 2})).toBe('0.33');
+    expect(new SassNumber(-0.0001).toCss({precision: 2})).toBe('0');
+    expect(new SassNumber(Infinity, 'px').toCss()).toBe('calc(infinity * 1px)');
+  });
+
+  it('formats colors', () => {
+    const color = new SassColor({red: 255, green: 0, blue: 0, alpha: 0.5});
+    expect(color.toCss()).toBe('rgba(255, 0, 0, 0.5)');
+    expect(color.toCss({colorFormat: 'hex'})).toBe('#ff000080');
+    expect(color.toCss({colorFormat: 'hsl'})).toBe('hsla(0, 100%, 50%, 0.5)');
+    expect(new SassColor({red: 0, green: 128, blue: 255}).toCss()).toBe(
+      '#0080ff',
+    );
+    expect(
+      new SassColor({
+        space: 'oklch',
+        lightness: 0.5,
+        chroma: 0.1,
+        hue: null,
+      }).toCss(),
+    ).toBe('oklch(0.5 0.1 none)');
+  });
+
+  it('quotes strings', () => {
+    expect(new SassString('a"b').toCss()).toBe("'a\"b'");
+    expect(new SassString('a\nb').toCss()).toBe('"a\\a b"');
+    expect(new SassString('a b', {quotes: false}).toCss()).toBe('a b');
+  });
+
+  it('omits blank list elements', () => {
+    expect(
+      new SassList(
+        [new SassNumber(1, 'px'), sassNull, new SassString('solid')],
+        {separator: ' ', brackets: true},
+      ).toCss(),
+    ).toBe('[1px "solid"]');
+  });
+
+  it('throws for values without CSS representations', () => {
+    expect(() => new SassMap().toCss()).toThrow("() isn't a valid CSS value.");
+    expect(() =>
+      new SassNumber(1, {numeratorUnits: ['px', 'px']}).toCss(),
+    ).toThrow("1px*px isn't a valid CSS value.");
+  });
+});
+
+describe('toSassLiteral', () => {
+  /** Returns the result of compiling `value.toSassLiteral()` as SassScript. */
+  function compileLiteral(value: Value): Value {
+    let result: Value | undefined;
+    compileString(
+      '@use "sass:list"; @use "sass:math"; ' +
+        `$value: ${value.toSassLiteral()}; a {b: check($value)}`,
+      {
+        functions: defineFunction('check($value)', {
+          params: {value: 'value'},
+          handler: ({value}) => {
+            result = value;
+            return sassNull;
+          },
+        }),
+      },
+    );
+    return result!;
+  }
+
+  /** Asserts that compiling `value.toSassLiteral()` produces `value`. */
+  function expectRoundTrip(value: Value): void {
+    expect(compileLiteral(value).equals(value)).toBe(true);
+  }
+
+  it('writes scalars', () => {
+    expect(sassNull.toSassLiteral()).toBe('null');
+    expect(sassTrue.toSassLiteral()).toBe('true');
+    expect(new SassNumber(1.5, 'px').toSassLiteral()).toBe('1.5px');
+    expect(compileLiteral(new SassNumber(-Infinity, 'px')).toString()).toBe(
+      '-Infinitypx',
+    );
+    for (const value of [
+      sassFalse,
+      new SassNumber(-0.1, '%'),
+      new SassNumber(2, {
+        numeratorUnits: ['px', 'px'],
+        denominatorUnits: ['s'],
+      }),
+    ]) {
+      expectRoundTrip(value);
+    }
+  });
+
+  it('writes strings', () => {
+    expect(new SassString('solid', {quotes: false}).toSassLiteral()).toBe(
+      'solid',
+    );
+    expect(new SassString('red', {quotes: false}).toSassLiteral()).toBe(
+      '#{"red"}',
+    );
+    for (const value of [
+      new SassString('a "b" #{c}'),
+      new SassString('null', {quotes: false}),
+      new SassString('Helvetica Neue', {quotes: false}),
+    ]) {
+      expectRoundTrip(value);
+    }
+  });
+
+  it('writes colors in their own spaces', () => {
+    expect(new SassColor({red: 255, green: 0, blue: 0}).toSassLiteral()).toBe(
+      '#ff0000',
+    );
+    for (const value of [
+      new SassColor({red: 10, green: 20, blue: 30, alpha: 0.25}),
+      new SassColor({hue: 120, saturation: 50, lightness: 40}),
+      new SassColor({space: 'display-p3', red: 1, green: 0.5, blue: 0}),
+    ]) {
+      expectRoundTrip(value);
+    }
+
+    const missing = new SassColor({
+      space: 'lab',
+      lightness: 50,
+      a: null,
+      b: 20,
+    });
+    expect(compileLiteral(missing).toSassLiteral()).toBe('lab(50 none 20)');
+  });
+
+  it('writes lists with their separators and brackets', () => {
+    const one = new SassNumber(1);
+    const two = new SassNumber(-2, 'px');
+    const commaList = new SassList([one, two]);
+    expect(
+      new SassList([commaList, two], {separator: ' '}).toSassLiteral(),
+    ).toBe('(1, -2px) (-2px)');
+    for (const value of [
+      new SassList(),
+      new SassList([one]),
+      new SassList([one], {separator: ' '}),
+      new SassList([one, two], {separator: '/'}),
+      new SassList([commaList, commaList], {brackets: true}),
+      new SassList([one, two], {separator: ' ', brackets: true}),
+    ]) {
+      expectRoundTrip(value);
+    }
+  });
+
+  it('writes maps', () => {
+    expectRoundTrip(
+      new SassMap(
+        OrderedMap<Value, Value>([
+          [new SassString('sizes'), new SassList([one(), one()])],
+          [new SassNumber(100), new SassMap(OrderedMap([[one(), sassNull]]))],
+        ]),
+      ),
+    );
+  });
+
+  it('writes calculations', () => {
+    const calculation = SassCalculation.calc(
+      new CalculationOperation(
+        '*',
+        new CalculationOperation(
+          '+',
+          new SassNumber(1, 'px'),
+          new SassNumber(10, '%'),
+        ),
+        new SassNumber(2),
+      ),
+    );
+    expect(calculation.toSassLiteral()).toBe('calc((1px + 10%) * 2)');
+    expect(compileLiteral(calculation).toSassLiteral()).toBe(
+      calculation.toSassLiteral(),
+    );
+  });
+});
+
+/** Returns a new unitless number 1. */
+function one(): SassNumber {
+  return new SassNumber(1);
+}
@@ -0,0 +1,88 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {precision as defaultPrecision} from './utils';
+
+/**
+ * The syntax `Value.toCss()` uses for colors:
+ *
+ * - `'auto'`: Legacy colors use hex syntax if they're opaque and have integer
+ *   channels, and `rgb()` or `rgba()` otherwise. Other colors use their own
+ *   color space's syntax, such as `oklch()` or `color(display-p3 ...)`.
+ *
+ * - `'hex'`: All colors are converted to RGB, mapped into its gamut, and use
+ *   hex syntax.
+ *
+ * - `'rgb'`: All colors are converted to RGB and use `rgb()` or `rgba()`.
+ *
+ * - `'hsl'`: All colors are converted to HSL and use `hsl()` or `hsla()`.
+ */
+export type ColorFormat = 'auto' | 'hex' | 'rgb' | 'hsl';
+
+/** Options for `Value.toCss()`. */
+export interface ToCssOptions {
+  /**
+   * The number of digits after the decimal point that numbers are rounded to.
+   *
+   * Defaults to `10`, the same precision Sass uses.
+   */
+  precision?: number;
+
+  /**
+   * The syntax used for colors.
+   *
+   * Defaults to `'auto'`.
+   */
+  colorFormat?: ColorFormat;
+}
+
+/**
+ * Returns `value` as a CSS number, rounded to `options.precision` digits after
+ * the decimal point.
+ */
+export function formatCssNumber(value: number, options?: ToCssOptions): string {
+  let text = value.toFixed(options?.precision ?? defaultPrecision);
+  if (text.includes('.') && !text.includes('e')) {
+    text = text.replace(/\.?0+$/, '');
+  }
+  return text === '-0' ? '0' : text;
+}
+
+/**
+ * Returns `value`, which isn't finite, as a `calc()` expression with `unit`.
+ * This is valid in both CSS and SassScript.
+ */
+export function formatNonFiniteNumber(value: number, unit: string): string {
+  const keyword = Number.isNaN(value)
+    ? 'NaN'
+    : value > 0
+      ? 'infinity'
+      : '-infinity';
+  return unit ? `calc(${keyword} * 1${unit})` : `calc(${keyword})`;
+}
+
+/**
+ * Returns `text` as a quoted string, escaping characters as necessary.
+ *
+ * If `sass` is `true`, also escapes `#{` so the string doesn't contain
+ * interpolation when it's parsed as SassScript.
+ */
+export function quoteString(text: string, sass = false): string {
+  const quote = text.includes('"') && !text.includes("'") ? "'" : '"';
+  let result = quote;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const code = char.charCodeAt(0);
+    if (char === quote || char === '\\') {
+      result += `\\${char}`;
+    } else if (code < 0x20 || code === 0x7f) {
+      result += `\\${code.toString(16)} `;
+    } else if (sass && char === '#' && text[i + 1] === '{') {
+      result += '\\#';
+    } else {
+      result += char;
+    }
+  }
+  return result + quote;
+}
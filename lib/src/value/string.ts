@@ -5,8 +5,17 @@
 import {hash} from 'immutable';
 
 import {Value} from './index';
+import {parseCssColor} from './color';
+import {quoteString} from './serialize';
 import {valueError} from '../utils';
 
+/** Matches text that SassScript can parse as an identifier. */
+const identifierPattern =
+  /^(--|-?[a-zA-Z_\u0080-\uffff])[a-zA-Z0-9_\-\u0080-\uffff]*$/;
+
+/** Identifiers that SassScript parses as something other than a string. */
+const reservedWords = new Set(['null', 'true', 'false', 'and', 'or', 'not']);
+
 /** A SassScript string. */
 export class SassString extends Value {
   private readonly textInternal: string;
@@ -125,6 +134,22 @@ export class SassString extends Value {
     return hash(this.text);
   }
 
+  toCss(): string {
+    return this.hasQuotes ? quoteString(this.text) : this.text;
+  }
+
+  toSassLiteral(): string {
+    if (this.hasQuotes) return quoteString(this.text, true);
+
+    // Unquoted strings that SassScript would parse as something else, such as
+    // `null` or `red`, are written as interpolation instead.
+    return identifierPattern.test(this.text) &&
+      !reservedWords.has(this.text) &&
+      !parseCssColor(this.text)
+      ? this.text
+      : `#{${quoteString(this.text, true)}}`;
+  }
+
   toString(): string {
     return this.hasQuotes ? `"${this.text}"` : this.text;
   }
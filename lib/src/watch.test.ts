@@ -0,0 +1,116 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as p from 'path';
+
+import * as asyncModule from './compiler/async';
+import {WatchEvent, Watcher, watch} from './watch';
+
+describe('watch', () => {
+  let dir: string;
+  let watcher: Watcher | undefined;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(p.join(os.tmpdir(), 'sass-watch-'));
+    fs.writeFileSync(p.join(dir, '_shared.scss'), 'a {b: c}');
+    fs.writeFileSync(p.join(dir, 'uses.scss'), '@use "shared"');
+    fs.writeFileSync(p.join(dir, 'alone.scss'), 'd {e: f}');
+  });
+
+  afterEach(async () => {
+    await watcher?.close();
+    watcher = undefined;
+    fs.rmSync(dir, {recursive: true});
+  });
+
+  /** Returns the next `count` events from `watcher`. */
+  async function nextEvents(count: number): Promise<WatchEvent[]> {
+    const iterator = watcher![Symbol.asyncIterator]();
+    const events: WatchEvent[] = [];
+    while (events.length < count) {
+      events.push((await iterator.next()).value);
+    }
+    return events;
+  }
+
+  it('compiles every entry point up front', async () => {
+    watcher = watch([p.join(dir, 'uses.scss'), p.join(dir, 'alone.scss')]);
+    const events = await nextEvents(2);
+    expect(events.map(event => event.result?.css).sort()).toEqual([
+      'a {\n  b: c;\n}',
+      'd {\n  e: f;\n}',
+    ]);
+  });
+
+  it('recompiles only the entry points that depend on a change', async () => {
+    watcher = watch([p.join(dir, 'uses.scss'), p.join(dir, 'alone.scss')], {
+      debounce: 10,
+    });
+    await nextEvents(2);
+
+    fs.writeFileSync(p.join(dir, '_shared.scss'), 'a {b: g}');
+    const [event] = await nextEvents(1);
+    expect(event.entryPoint).toBe(p.join(dir, 'uses.scss'));
+    expect(event.result?.css).toBe('a {\n  b: g;\n}');
+  });
+
+  it('reports errors and recompiles once they are fixed', async () => {
+    fs.writeFileSync(p.join(dir, '_shared.scss'), 'a {b: }');
+    watcher = watch([p.join(dir, 'uses.scss')], {debounce: 10});
+    const [failure] = await nextEvents(1);
+    expect(failure.error).toBeDefined();
+
+    fs.writeFileSync(p.join(dir, '_shared.scss'), 'a {b: c}');
+    const [success] = await nextEvents(1);
+    expect(success.result?.css).toBe('a {\n  b: c;\n}');
+  });
+
+  it('recompiles once a deleted dependency is recreated', async () => {
+    watcher = watch([p.join(dir, 'uses.scss')], {debounce: 10});
+    await nextEvents(1);
+
+    fs.rmSync(p.join(dir, '_shared.scss'));
+    const [failure] = await nextEvents(1);
+    expect(failure.error).toBeDefined();
+
+    fs.writeFileSync(p.join(dir, '_shared.scss'), 'a {b: g}');
+    const [success] = await nextEvents(1);
+    expect(success.result?.css).toBe('a {\n  b: g;\n}');
+  });
+
+  it('compiles a missing entry point once it is created', async () => {
+    const entryPoint = p.join(dir, 'new.scss');
+    watcher = watch([entryPoint], {debounce: 10});
+    const [failure] = await nextEvents(1);
+    expect(failure.error).toBeDefined();
+
+    fs.writeFileSync(entryPoint, 'g {h: i}');
+    const [success] = await nextEvents(1);
+    expect(success.result?.css).toBe('g {\n  h: i;\n}');
+  });
+
+  it('reports a compiler that fails to start through the iterator', async () => {
+    const error = new Error('failed to start');
+    jest.spyOn(asyncModule, 'initAsyncCompiler').mockRejectedValueOnce(error);
+    watcher = watch([p.join(dir, 'alone.scss')]);
+    const iterator = watcher[Symbol.asyncIterator]();
+    await expect(iterator.next()).rejects.toBe(error);
+    await expect(iterator.next()).resolves.toMatchObject({done: true});
+  });
+
+  it('ends iteration when closed', async () => {
+    watcher = watch([p.join(dir, 'alone.scss')]);
+    const events: WatchEvent[] = [];
+    for await (const event of watcher) {
+      events.push(event);
+      break;
+    }
+    expect(events).toHaveLength(1);
+    await expect(watcher[Symbol.asyncIterator]().next()).resolves.toMatchObject(
+      {done: true},
+    );
+  });
+});
@@ -0,0 +1,336 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as fs from 'fs';
+import * as p from 'path';
+import {fileURLToPath} from 'url';
+
+import {AsyncCompiler, initAsyncCompiler} from './compiler/async';
+import {HostCompileResult, HostOptions} from './compiler/utils';
+import {Exception} from './exception';
+import * as utils from './utils';
+import {Options} from './vendor/sass';
+
+/**
+ * Flag allowing the constructor passed by `watch` so we can differentiate and
+ * throw an error if the `Watcher` is constructed via `new Watcher`.
+ */
+const initFlag = Symbol();
+
+/** Options for `watch()`, which are passed on to every compilation. */
+export interface WatchOptions extends Options<'async'>, HostOptions<'async'> {
+  /**
+   * The number of milliseconds to wait after a file changes before
+   * recompiling, so that a burst of saves only triggers one compilation.
+   *
+   * Defaults to 100.
+   */
+  debounce?: number;
+}
+
+/**
+ * The outcome of compiling one of the watched entry points. Exactly one of
+ * `result` and `error` is set.
+ */
+export type WatchEvent =
+  | {entryPoint: string; result: HostCompileResult; error?: undefined}
+  | {entryPoint: string; result?: undefined; error: unknown};
+
+/**
+ * Watches a set of Sass entry points along with every file they load, and
+ * recompiles each entry point when one of its dependencies changes.
+ *
+ * This is an async iterable of the compilation outcomes, starting with the
+ * initial compilation of each entry point. Breaking out of a `for await` loop
+ * over it closes the watcher. If the compiler fails to start, the next
+ * iterator call rejects with that error and iteration ends.
+ */
+export class Watcher implements AsyncIterable<WatchEvent> {
+  /** The compiler shared by all compilations. */
+  private readonly compiler: Promise<AsyncCompiler>;
+
+  /**
+   * The absolute paths of the files each entry point loaded the last time it
+   * was compiled, indexed by the entry point.
+   */
+  private readonly dependencies = new Map<string, Set<string>>();
+
+  /**
+   * The file system watchers for each dependency, indexed by path. A
+   * dependency that doesn't exist is watched through its parent directory.
+   */
+  private readonly fileWatchers = new Map<string, fs.FSWatcher>();
+
+  /** Dependencies that have changed since the last recompilation. */
+  private readonly changed = new Set<string>();
+
+  /** The timer for the next recompilation, if one is scheduled. */
+  private debounceTimer?: NodeJS.Timeout;
+
+  /**
+   * The most recent batch of compilations. Batches run one after another so
+   * an entry point's results are always emitted in order.
+   */
+  private compilations: Promise<void>;
+
+  /** Events that haven't been consumed by the iterator yet. */
+  private readonly events: WatchEvent[] = [];
+
+  /** Callbacks for iterator calls that are waiting for the next event. */
+  private readonly waiters: Array<{
+    resolve: (result: IteratorResult<WatchEvent>) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+
+  /**
+   * The error that stopped the watcher, if no iterator call has reported it
+   * yet.
+   */
+  private failure?: {error: unknown};
+
+  /** Whether the watcher has been closed. */
+  private closed = false;
+
+  constructor(
+    flag: symbol | undefined,
+    entryPoints: string[],
+    private readonly options?: WatchOptions,
+  ) {
+    if (flag !== initFlag) {
+      throw utils.compilerError(
+        'Watcher can not be directly constructed. ' +
+          'Please use `sass.watch()` instead',
+      );
+    }
+
+    // A watcher is expected to run for a long time, so it shouldn't stop
+    // working just because the compiler crashed once.
+    this.compiler = initAsyncCompiler({restartOnCrash: true});
+    const absolute = entryPoints.map(entryPoint => p.resolve(entryPoint));
+    this.compilations = this.compileAll(absolute).catch(error =>
+      this.fail(error),
+    );
+  }
+
+  /**
+   * Compiles `entryPoints` concurrently and emits their outcomes.
+   *
+   * This only rejects if the compiler failed to start.
+   */
+  private async compileAll(entryPoints: string[]): Promise<void> {
+    const compiler = await this.compiler;
+    await Promise.all(
+      entryPoints.map(async entryPoint => {
+        let event: WatchEvent;
+        try {
+          const result = await compiler.compileAsync(entryPoint, this.options);
+          this.dependencies.set(entryPoint, fileDependencies(result));
+          event = {entryPoint, result};
+        } catch (error) {
+          // A failed compilation doesn't report what it loaded, so keep
+          // watching what it loaded last time along with the file containing
+          // the error, so that fixing the error triggers a recompilation.
+          const dependencies =
+            this.dependencies.get(entryPoint) ?? new Set([entryPoint]);
+          const url = error instanceof Exception ? error.span.url : undefined;
+          if (url?.protocol === 'file:') dependencies.add(fileURLToPath(url));
+          this.dependencies.set(entryPoint, dependencies);
+          event = {entryPoint, error};
+        }
+        // Update the watchers before emitting the event so that changes made
+        // in response to it are picked up.
+        if (this.closed) return;
+        this.updateFileWatchers();
+        this.emit(event);
+      }),
+    );
+  }
+
+  /** Recompiles every entry point that depends on a changed file. */
+  private recompile(): void {
+    this.debounceTimer = undefined;
+    const changed = [...this.changed];
+    this.changed.clear();
+
+    // Editors that save by replacing a file break the existing watch on it,
+    // so start watching the changed files from scratch.
+    for (const file of changed) {
+      this.fileWatchers.get(file)?.close();
+      this.fileWatchers.delete(file);
+    }
+
+    const entryPoints = [...this.dependencies]
+      .filter(([, dependencies]) =>
+        changed.some(file => dependencies.has(file)),
+      )
+      .map(([entryPoint]) => entryPoint);
+    this.compilations = this.compilations.then(() =>
+      this.compileAll(entryPoints),
+    );
+  }
+
+  /**
+   * Starts watching every file an entry point depends on and stops watching
+   * files that no entry point depends on anymore.
+   */
+  private updateFileWatchers(): void {
+    const files = new Set<string>();
+    for (const dependencies of this.dependencies.values()) {
+      for (const file of dependencies) files.add(file);
+    }
+
+    for (const [file, watcher] of this.fileWatchers) {
+      if (files.has(file)) continue;
+      watcher.close();
+      this.fileWatchers.delete(file);
+    }
+
+    for (const file of files) {
+      if (this.fileWatchers.has(file)) continue;
+      const watcher = this.watchFile(file);
+      if (watcher) this.fileWatchers.set(file, watcher);
+    }
+  }
+
+  /**
+   * Returns a watcher that calls `fileChanged()` when `file` changes.
+   *
+   * If `file` doesn't exist, this watches its parent directory for it to be
+   * created instead. Returns `undefined` if neither exists.
+   */
+  private watchFile(file: string): fs.FSWatcher | undefined {
+    try {
+      // A deletion is reported as a change, and the resulting recompilation
+      // watches the file's directory instead.
+      return fs.watch(file, () => this.fileChanged(file)).on('error', () => {});
+    } catch {
+      // Fall back to watching the directory.
+    }
+
+    const dir = p.dirname(file);
+    try {
+      return fs
+        .watch(dir, (_, filename) => {
+          const matches = filename
+            ? p.resolve(dir, filename.toString()) === file
+            : fs.existsSync(file);
+          if (matches) this.fileChanged(file);
+        })
+        .on('error', () => {});
+    } catch {
+      // The directory doesn't exist either. The file's absence caused a
+      // compilation error, which is already reported.
+      return undefined;
+    }
+  }
+
+  /** Schedules a recompilation of the entry points that depend on `file`. */
+  private fileChanged(file: string): void {
+    if (this.closed) return;
+    this.changed.add(file);
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(
+      () => this.recompile(),
+      this.options?.debounce ?? 100,
+    );
+  }
+
+  /** Passes `event` to the next waiting iterator call, or queues it. */
+  private emit(event: WatchEvent): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({value: event, done: false});
+    } else {
+      this.events.push(event);
+    }
+  }
+
+  /** Returns the next event, waiting for one if none is queued. */
+  private next(): Promise<IteratorResult<WatchEvent>> {
+    const event = this.events.shift();
+    if (event) return Promise.resolve({value: event, done: false});
+    if (this.failure) {
+      const {error} = this.failure;
+      this.failure = undefined;
+      return Promise.reject(error);
+    }
+    if (this.closed) return Promise.resolve({value: undefined, done: true});
+    return new Promise((resolve, reject) =>
+      this.waiters.push({resolve, reject}),
+    );
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<WatchEvent> {
+    return {
+      next: () => this.next(),
+      return: async () => {
+        await this.close();
+        return {value: undefined, done: true};
+      },
+    };
+  }
+
+  /**
+   * Stops watching files and shuts down the compiler once any compilations
+   * already in progress have finished. Events that haven't been consumed yet
+   * are dropped.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.stop();
+    await this.compilations;
+    // If the compiler failed to start, there's nothing to shut down.
+    await this.compiler.then(
+      compiler => compiler.dispose(),
+      () => {},
+    );
+  }
+
+  /**
+   * Stops the watcher because the compiler failed to start with `error`, which
+   * the next iterator call reports.
+   */
+  private fail(error: unknown): void {
+    if (this.closed) return;
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.reject(error);
+    } else {
+      this.failure = {error};
+    }
+    this.stop();
+  }
+
+  /**
+   * Stops watching files, drops unconsumed events, and ends any iterator calls
+   * that are waiting.
+   */
+  private stop(): void {
+    this.closed = true;
+    clearTimeout(this.debounceTimer);
+    for (const watcher of this.fileWatchers.values()) watcher.close();
+    this.fileWatchers.clear();
+    this.events.length = 0;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.resolve({value: undefined, done: true});
+    }
+  }
+}
+
+/**
+ * Watches `entryPoints` and every file they load, recompiling each entry point
+ * when one of its dependencies changes.
+ */
+export function watch(entryPoints: string[], options?: WatchOptions): Watcher {
+  return new Watcher(initFlag, entryPoints, options);
+}
+
+/** Returns the absolute paths of the local files `result` loaded. */
+function fileDependencies(result: HostCompileResult): Set<string> {
+  return new Set(
+    result.loadedUrls
+      .filter(url => url.protocol === 'file:')
+      .map(url => fileURLToPath(url)),
+  );
+}
@@ -0,0 +1,52 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as fs from 'fs';
+import * as shell from 'shelljs';
+
+import {buildTypes} from '../tool/build-types';
+import * as sandbox from './sandbox';
+
+// These tests assert that code written against the published type declarations
+// type-checks, including code that combines the language repo's types with the
+// ones only the host declares.
+
+it(
+  'publishes types that consumers can compile against',
+  () =>
+    sandbox.run(dir => {
+      buildTypes(dir('types'));
+      fs.writeFileSync(
+        dir('consumer.ts'),
+        `
+        import * as sass from './types/index';
+
+        const logger: sass.Logger = {warn: () => {}};
+        const options: sass.ValueConversionOptions = {};
+        const value: sass.Value = sass.toSassValue({a: [1, 'b']}, options);
+        const json: sass.JsValue = sass.fromSassValue(value, options);
+        const format: sass.ColorFormat = 'rgb';
+        const toCss: sass.ToCssOptions = {precision: 2, colorFormat: format};
+        const css: string = value.toCss(toCss);
+        sass.compileString('a {b: c}', {
+          importers: [
+            new sass.NodePackageImporter(),
+            new sass.MemoryImporter({}),
+          ],
+          logger: sass.Logger.silent,
+        });
+      `,
+      );
+
+      const result = shell.exec(
+        'tsc --ignoreConfig --noEmit --strict --skipLibCheck false ' +
+          '--module nodenext --moduleResolution nodenext --target es2022 ' +
+          `--types node ${dir('consumer.ts')}`,
+        {silent: true},
+      );
+      expect(result.stdout).toBe('');
+      expect(result.code).toBe(0);
+    }),
+  120000,
+);
@@ -0,0 +1,306 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as fs from 'fs';
+import * as p from 'path';
+import * as shell from 'shelljs';
+import * as ts from 'typescript';
+
+/**
+ * Writes the package's type declarations to `outPath`.
+ *
+ * The JS API declarations from the language repo are copied to `outPath/sass`,
+ * and declarations for everything `lib/index.ts` exports are generated into
+ * `outPath/lib`. The generated declarations for the vendored language repo
+ * types and for the value classes it declares are replaced with re-exports of
+ * the copies in `outPath/sass`, so that each of those types has one identity
+ * that both the documented API and the host's own API refer to. Public members
+ * that the host adds to those classes are declared as augmentations.
+ *
+ * `outPath/index.d.ts` exports everything the language repo declares, along
+ * with everything else `lib/index.ts` exports.
+ */
+export function buildTypes(outPath: string): void {
+  shell.rm('-rf', outPath);
+  shell.mkdir('-p', outPath);
+
+  const specPath = p.join(outPath, 'sass');
+  shell.cp('-R', 'lib/src/vendor/sass', specPath);
+  shell.rm('-f', p.join(specPath, 'README.md'));
+
+  shell.exec(`tsc -p tsconfig.types.json --declarationDir ${outPath}`);
+
+  const specFiles = shell.find(specPath).filter(file => file.endsWith('.d.ts'));
+  for (const file of specFiles) {
+    const shim = p.join(
+      outPath,
+      'lib/src/vendor/sass',
+      p.relative(specPath, file),
+    );
+    writeModule(shim, `export * from '${moduleSpecifier(shim, file)}';\n`);
+  }
+
+  const program = ts.createProgram(specFiles, {noEmit: true});
+  const checker = program.getTypeChecker();
+  const specValues = moduleExports(
+    program,
+    checker,
+    p.join(specPath, 'value/index.d.ts'),
+  );
+  const valuePath = p.join(outPath, 'lib/src/value');
+  const inherited = valueMemberNames(p.join(valuePath, 'index.d.ts'));
+  for (const file of shell.find(valuePath)) {
+    if (file.endsWith('.d.ts')) {
+      replaceSpecDeclarations(
+        file,
+        specValues,
+        p.join(specPath, 'value'),
+        inherited,
+      );
+    }
+  }
+
+  // Everything the language repo's index declares is exported from its
+  // declarations, which document it and which consumers' own code is written
+  // against. Only the names it doesn't declare are exported from the host's
+  // declarations.
+  const specExports = moduleExports(
+    program,
+    checker,
+    p.join(specPath, 'index.d.ts'),
+  );
+  const indexPath = p.join(outPath, 'lib/index.d.ts');
+  const hostProgram = ts.createProgram([indexPath], {noEmit: true});
+  const hostExports = [
+    ...moduleExports(
+      hostProgram,
+      hostProgram.getTypeChecker(),
+      indexPath,
+    ).keys(),
+  ].filter(name => !specExports.has(name));
+  writeModule(
+    p.join(outPath, 'index.d.ts'),
+    `export {\n${hostExports.map(name => `  ${name},\n`).join('')}` +
+      "} from './lib/index';\nexport * from './sass/index';\n",
+  );
+  shell.cp(p.join(outPath, 'index.d.ts'), p.join(outPath, 'index.m.d.ts'));
+}
+
+/**
+ * Returns the names that the module at `path` exports, mapped to the
+ * declarations they refer to.
+ */
+function moduleExports(
+  program: ts.Program,
+  checker: ts.TypeChecker,
+  path: string,
+): Map<string, ts.Declaration | undefined> {
+  const source = program.getSourceFile(path);
+  const module = source && checker.getSymbolAtLocation(source);
+  if (!module) throw Error(`Can't load declarations from ${path}.`);
+
+  const result = new Map<string, ts.Declaration | undefined>();
+  for (const symbol of checker.getExportsOfModule(module)) {
+    const target =
+      symbol.flags & ts.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(symbol)
+        : symbol;
+    result.set(symbol.name, target.declarations?.[0]);
+  }
+  return result;
+}
+
+/**
+ * Returns the names of the members of the generated `Value` class at `path`,
+ * which subclasses inherit.
+ */
+function valueMemberNames(path: string): Set<string> {
+  const source = parseFile(path);
+  const value = source.statements.find(
+    (statement): statement is ts.ClassDeclaration =>
+      ts.isClassDeclaration(statement) && statement.name?.text === 'Value',
+  );
+  if (!value) throw Error(`${path} doesn't declare Value.`);
+  return new Set(
+    value.members.flatMap(member =>
+      member.name ? [member.name.getText(source)] : [],
+    ),
+  );
+}
+
+/**
+ * Replaces the declarations in the generated file at `path` whose names are in
+ * `specValues` with re-exports from `specValuePath`, and declares any public
+ * instance members that the generated classes add as augmentations.
+ *
+ * Members named in `inherited` are only declared on `Value` itself.
+ */
+function replaceSpecDeclarations(
+  path: string,
+  specValues: Map<string, ts.Declaration | undefined>,
+  specValuePath: string,
+  inherited: Set<string>,
+): void {
+  const source = parseFile(path);
+
+  const kept: string[] = [];
+  const reexported: string[] = [];
+  const augmentations: string[] = [];
+  for (const statement of source.statements) {
+    const name = declaredName(statement);
+    if (name === null || !specValues.has(name)) {
+      const base = ts.isClassDeclaration(statement)
+        ? baseClassName(statement)
+        : null;
+      if (name !== null && base !== null && specValues.has(base)) {
+        // Internal subclasses of the spec classes are declared as those
+        // classes, since the spec may not allow them to be extended and their
+        // additions aren't part of the API.
+        kept.push(
+          `export declare const ${name}: typeof ${base};\n` +
+            `export type ${name} = ${base};`,
+        );
+      } else {
+        kept.push(statement.getFullText(source).trim());
+      }
+      continue;
+    }
+
+    reexported.push(name);
+    const specDeclaration = specValues.get(name);
+    if (
+      ts.isClassDeclaration(statement) &&
+      specDeclaration &&
+      ts.isClassDeclaration(specDeclaration)
+    ) {
+      const members = addedMembers(
+        statement,
+        specDeclaration,
+        name === 'Value' ? new Set() : inherited,
+        source,
+      );
+      if (members.length > 0) {
+        const specFile = specDeclaration.getSourceFile().fileName;
+        augmentations.push(
+          `declare module '${moduleSpecifier(path, specFile)}' {\n` +
+            `  interface ${name} {\n` +
+            members.map(member => `    ${member}\n`).join('') +
+            '  }\n}',
+        );
+      }
+    }
+  }
+
+  // The spec declarations are also imported, since the rest of the file may
+  // refer to them.
+  const index = p.join(specValuePath, 'index.d.ts');
+  const names = reexported.join(', ');
+  writeModule(
+    path,
+    [
+      `import {${names}} from '${moduleSpecifier(path, index)}';`,
+      ...kept,
+      `export {${names}};`,
+      ...augmentations,
+    ].join('\n') + '\n',
+  );
+}
+
+/** Returns the name that `statement` exports, or `null` if it doesn't. */
+function declaredName(statement: ts.Statement): string | null {
+  const exported = ts
+    .getModifiers(statement as ts.HasModifiers)
+    ?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+  if (!exported) return null;
+
+  if (
+    (ts.isClassDeclaration(statement) ||
+      ts.isFunctionDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement)) &&
+    statement.name
+  ) {
+    return statement.name.text;
+  }
+  if (
+    ts.isVariableStatement(statement) &&
+    statement.declarationList.declarations.length === 1
+  ) {
+    const [declaration] = statement.declarationList.declarations;
+    if (ts.isIdentifier(declaration.name)) return declaration.name.text;
+  }
+  return null;
+}
+
+/** Returns the name of the class that `declaration` extends, if any. */
+function baseClassName(declaration: ts.ClassDeclaration): string | null {
+  const clause = declaration.heritageClauses?.find(
+    clause => clause.token === ts.SyntaxKind.ExtendsKeyword,
+  );
+  const base = clause?.types[0]?.expression;
+  return base && ts.isIdentifier(base) ? base.text : null;
+}
+
+/**
+ * Returns the text of the public instance members of `generated` that
+ * `spec` doesn't declare and that aren't named in `inherited`, including their
+ * doc comments.
+ */
+function addedMembers(
+  generated: ts.ClassDeclaration,
+  spec: ts.ClassDeclaration,
+  inherited: Set<string>,
+  source: ts.SourceFile,
+): string[] {
+  const specNames = new Set(inherited);
+  for (const member of spec.members) {
+    if (member.name) specNames.add(member.name.getText());
+  }
+  return generated.members
+    .filter(member => {
+      const modifiers = ts.getModifiers(member as ts.HasModifiers) ?? [];
+      return (
+        member.name &&
+        !ts.isConstructorDeclaration(member) &&
+        !specNames.has(member.name.getText(source)) &&
+        !modifiers.some(
+          modifier =>
+            modifier.kind === ts.SyntaxKind.PrivateKeyword ||
+            modifier.kind === ts.SyntaxKind.ProtectedKeyword ||
+            modifier.kind === ts.SyntaxKind.StaticKeyword,
+        )
+      );
+    })
+    .map(member =>
+      member
+        .getFullText(source)
+        .trim()
+        .replace(/^((?:\/\*\*[^]*?\*\/\s*)?)abstract\s+/, '$1'),
+    );
+}
+
+/** Parses the declaration file at `path`. */
+function parseFile(path: string): ts.SourceFile {
+  return ts.createSourceFile(
+    path,
+    fs.readFileSync(path, 'utf8'),
+    ts.ScriptTarget.Latest,
+    true,
+  );
+}
+
+/** Returns the relative module specifier that `from` uses to import `to`. */
+function moduleSpecifier(from: string, to: string): string {
+  const specifier = p
+    .relative(p.dirname(from), to)
+    .replace(/\\/g, '/')
+    .replace(/\.d\.ts$/, '');
+  return specifier.startsWith('.') ? specifier : `./${specifier}`;
+}
+
+/** Writes `contents` to `path`, creating its directory if necessary. */
+function writeModule(path: string, contents: string): void {
+  fs.mkdirSync(p.dirname(path), {recursive: true});
+  fs.writeFileSync(path, contents);
+}
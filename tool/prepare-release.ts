@@ -6,6 +6,7 @@ import {promises as fs} from 'fs';
 import * as shell from 'shelljs';
 
 import * as pkg from '../package.json';
+import {buildTypes} from './build-types';
 import {getDeprecations} from './get-deprecations';
 import {getLanguageRepo} from './get-language-repo';
 
@@ -21,10 +22,8 @@ void (async () => {
     shell.exec('tsc -p tsconfig.build.json');
     shell.cp('lib/index.mjs', 'dist/lib/index.mjs');
 
-    console.log('Copying JS API types to dist.');
-    shell.cp('-R', 'lib/src/vendor/sass', 'dist/types');
-    shell.cp('dist/types/index.d.ts', 'dist/types/index.m.d.ts');
-    await fs.unlink('dist/types/README.md');
+    console.log('Building JS API types into dist.');
+    buildTypes('dist/types');
 
     console.log('Ready for publishing to npm.');
   } catch (error) {